@@ -2,3 +2,4 @@ import { config } from "dotenv";
 config();
 
 import "@/ai/flows/smart-reply-suggestions.ts";
+import "@/ai/flows/conversation-summary.ts";
@@ -0,0 +1,69 @@
+'use server';
+
+/**
+ * @fileOverview An AI agent that summarizes the recent messages of a conversation.
+ *
+ * - summarizeConversation - A function that generates a short summary of a conversation.
+ * - ConversationSummaryInput - The input type for the summarizeConversation function.
+ * - ConversationSummaryOutput - The return type for the summarizeConversation function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const ConversationSummaryInputSchema = z.object({
+  conversation: z
+    .string()
+    .describe('The messages to summarize, one "username: message" per line, oldest first.'),
+});
+export type ConversationSummaryInput = z.infer<
+  typeof ConversationSummaryInputSchema
+>;
+
+const ConversationSummaryOutputSchema = z.object({
+  summary: z
+    .string()
+    .describe('A short markdown summary of the conversation.'),
+});
+export type ConversationSummaryOutput = z.infer<
+  typeof ConversationSummaryOutputSchema
+>;
+
+export async function summarizeConversation(
+  input: ConversationSummaryInput
+): Promise<ConversationSummaryOutput> {
+  console.log('🧠 Summarizing conversation of', input.conversation.split('\n').length, 'messages');
+  try {
+    return await conversationSummaryFlow(input);
+  } catch (error) {
+    console.error('❌ Conversation summary failed:', error);
+    throw error;
+  }
+}
+
+const prompt = ai.definePrompt({
+  name: 'conversationSummaryPrompt',
+  input: {schema: ConversationSummaryInputSchema},
+  output: {schema: ConversationSummaryOutputSchema},
+  prompt: `You are a helpful assistant that summarizes chat conversations for someone catching up.
+
+  Conversation:
+  {{{conversation}}}
+
+  Write a concise summary as a markdown bulleted list of at most 6 items ("- " per line).
+  Cover the main topics, any decisions made and open questions, and mention who said what when it matters.
+  Do not include any intro or explanation, just the list.
+  `,
+});
+
+const conversationSummaryFlow = ai.defineFlow(
+  {
+    name: 'conversationSummaryFlow',
+    inputSchema: ConversationSummaryInputSchema,
+    outputSchema: ConversationSummaryOutputSchema,
+  },
+  async input => {
+    const {output} = await prompt(input);
+    return output!;
+  }
+);
@@ -0,0 +1,18 @@
+import { summarizeConversation } from '@/ai/flows/conversation-summary';
+import { NextRequest, NextResponse } from 'next/server';
+
+export async function POST(req: NextRequest) {
+  try {
+    const { conversation } = await req.json();
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'conversation is required' }, { status: 400 });
+    }
+
+    const summary = await summarizeConversation({ conversation });
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+    return NextResponse.json({ error: 'Failed to summarize conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { isLocalUploadId, LOCAL_UPLOAD_DIR, localUploadsEnabled } from '@/lib/local-uploads';
+
+// Serves files stored by the stand-in upload route
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  if (!localUploadsEnabled() || !isLocalUploadId(id)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const [data, info] = await Promise.all([
+      readFile(path.join(LOCAL_UPLOAD_DIR, id)),
+      readFile(path.join(LOCAL_UPLOAD_DIR, `${id}.json`), 'utf8'),
+    ]);
+    const { name, mimeType } = JSON.parse(info) as { name: string; mimeType: string };
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(name)}`,
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+}
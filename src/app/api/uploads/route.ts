@@ -0,0 +1,51 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { validateAttachmentFile } from '@/lib/attachments';
+import { LOCAL_UPLOAD_DIR, localUploadsEnabled } from '@/lib/local-uploads';
+
+// Local stand-in for the upload service, used when NEXT_PUBLIC_UPLOAD_URL is
+// not set. Answers with the same shape the client expects from the real one.
+export async function POST(req: NextRequest) {
+  if (!localUploadsEnabled()) {
+    return NextResponse.json({ success: false, message: 'Uploads are not available' }, { status: 404 });
+  }
+
+  try {
+    const formData = await req.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ success: false, message: 'file is required' }, { status: 400 });
+    }
+
+    const validationError = validateAttachmentFile(file);
+    if (validationError) {
+      return NextResponse.json({ success: false, message: validationError }, { status: 400 });
+    }
+
+    const id = randomUUID();
+    await mkdir(LOCAL_UPLOAD_DIR, { recursive: true });
+    await writeFile(path.join(LOCAL_UPLOAD_DIR, id), Buffer.from(await file.arrayBuffer()));
+    await writeFile(
+      path.join(LOCAL_UPLOAD_DIR, `${id}.json`),
+      JSON.stringify({ name: file.name, mimeType: file.type })
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'File uploaded',
+      attachment: {
+        id,
+        url: `/api/uploads/${id}`,
+        name: file.name,
+        size: file.size,
+        mimeType: file.type,
+      },
+    });
+  } catch (error) {
+    console.error('Error storing upload:', error);
+    return NextResponse.json({ success: false, message: 'Failed to store upload' }, { status: 500 });
+  }
+}
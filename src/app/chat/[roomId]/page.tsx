@@ -0,0 +1,29 @@
+'use client';
+
+import { Loader2 } from 'lucide-react';
+import { ChatView } from '@/components/chat/chat-view';
+import { useRooms } from '@/context/room-context';
+import { useSelectedRoom } from '@/context/selected-room-context';
+
+// Serves both /chat/[roomId] and /chat/[roomId]/m/[messageId]; the selected
+// room and message are read from the URL by SelectedRoomProvider
+export default function RoomPage() {
+  const { selectedRoomId, selectedMessageId } = useSelectedRoom();
+  const { rooms } = useRooms();
+
+  if (!selectedRoomId) return null;
+
+  // A room that was just created has no history or socket room yet; the
+  // URL moves on to the real room once the server confirms it
+  const pendingRoom = rooms.find((room) => room.id === selectedRoomId && room.isPending);
+  if (pendingRoom) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-3 bg-secondary text-muted-foreground">
+        <Loader2 className="h-8 w-8 animate-spin" />
+        <p>Setting up {pendingRoom.name}…</p>
+      </div>
+    );
+  }
+
+  return <ChatView conversationId={selectedRoomId} focusMessageId={selectedMessageId ?? undefined} />;
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Compass, Loader2, Search, Users } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/context/auth-context';
+import { useRooms } from '@/context/room-context';
+import { useSelectedRoom } from '@/context/selected-room-context';
+import { useSocketContext } from '@/context/socket-context';
+import { usePublicRooms } from '@/hooks/use-public-rooms';
+import { useToast } from '@/hooks/use-toast';
+import { Room } from '@/lib/types';
+
+// Browsable list of public rooms, so people can find conversations beyond the
+// ones they were added to
+export default function DirectoryPage() {
+  const [search, setSearch] = useState('');
+  const [busyRoomId, setBusyRoomId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { rooms: joinedRooms, joinPublicRoom, leaveRoom } = useRooms();
+  const { setSelectedRoomId } = useSelectedRoom();
+  const {
+    actions: { leaveRoom: leaveSocketRoom },
+  } = useSocketContext();
+  const { rooms, isLoading, error, refresh } = usePublicRooms(search);
+  const joinedIds = useMemo(() => new Set(joinedRooms.map((room) => room.id)), [joinedRooms]);
+  const { toast } = useToast();
+
+  // Membership comes from RoomContext rather than the directory listing, so
+  // joins and leaves show up without searching again
+  const isMember = (room: Room) => joinedIds.has(room.id);
+  const memberCount = (room: Room) => {
+    const others = room.members.filter((id) => id !== user?.id).length;
+    return others + (isMember(room) ? 1 : 0);
+  };
+
+  const handleJoin = async (room: Room) => {
+    setBusyRoomId(room.id);
+    const response = await joinPublicRoom(room);
+    setBusyRoomId(null);
+
+    if (response.success) {
+      setSelectedRoomId(room.id);
+    } else {
+      toast({ title: `Could not join ${room.name}`, description: response.message, variant: 'destructive' });
+    }
+  };
+
+  const handleLeave = async (room: Room) => {
+    setBusyRoomId(room.id);
+    const response = await leaveRoom(room.id);
+    setBusyRoomId(null);
+
+    if (response.success) {
+      leaveSocketRoom(room.id);
+      toast({ title: `You left ${room.name}` });
+    } else {
+      toast({ title: `Could not leave ${room.name}`, description: response.message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="mx-auto max-w-3xl space-y-4 p-4 pt-6 md:p-8">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Browse rooms</h2>
+          <p className="mt-1 text-muted-foreground">Find public rooms to join.</p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search by name or description..."
+            className="h-10 pl-10"
+            aria-label="Search public rooms"
+          />
+        </div>
+
+        {error && rooms.length === 0 ? (
+          <div className="flex flex-col items-center gap-3 py-12 text-center text-muted-foreground">
+            <p>{error}</p>
+            <Button variant="outline" onClick={() => void refresh()}>Try again</Button>
+          </div>
+        ) : isLoading && rooms.length === 0 ? (
+          <div className="flex justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : rooms.length === 0 ? (
+          <div className="flex flex-col items-center py-12 text-center text-muted-foreground">
+            <Compass className="h-10 w-10" />
+            <p className="mt-3">
+              {search.trim() ? `No public rooms match "${search.trim()}".` : 'There are no public rooms yet.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-3">
+            {rooms.map((room) => {
+              const joined = isMember(room);
+              const isBusy = busyRoomId === room.id;
+              const count = memberCount(room);
+              return (
+                <Card key={room.id}>
+                  <CardContent className="flex items-center gap-4 p-4">
+                    <Avatar className="h-12 w-12 shrink-0">
+                      <AvatarFallback className="text-sm font-medium">
+                        {room.name.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">{room.name}</p>
+                      {room.description && (
+                        <p className="line-clamp-2 text-sm text-muted-foreground">{room.description}</p>
+                      )}
+                      <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                        <Users className="h-3 w-3" />
+                        {count} {count === 1 ? 'member' : 'members'}
+                      </p>
+                    </div>
+                    {joined ? (
+                      <div className="flex shrink-0 gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setSelectedRoomId(room.id)}>
+                          Open
+                        </Button>
+                        <Button variant="ghost" size="sm" disabled={isBusy} onClick={() => void handleLeave(room)}>
+                          Leave room
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button size="sm" className="shrink-0" disabled={isBusy} onClick={() => void handleJoin(room)}>
+                        {isBusy ? 'Joining…' : 'Join'}
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
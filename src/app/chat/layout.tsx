@@ -7,22 +7,28 @@ import { ChatAppShell } from '@/components/chat/chat-app-shell';
 import { SelectedRoomProvider } from '@/context/selected-room-context';
 import { RoomProvider } from '@/context/room-context';
 import { SocketProvider } from '@/context/socket-context';
+import { MessageStoreProvider } from '@/context/message-store-context';
 import { AuthProvider } from '@/context/auth-context';
+import { ReadStateProvider } from '@/context/read-state-context';
 
 
 export default function ChatLayout({ children }: { children: ReactNode }) {
   return (
     <AuthProvider>
       <RoomProvider>
-        <SocketProvider>
-          <ThemeProvider defaultTheme="system" enableSystem>
-            <SidebarProvider>
-              <SelectedRoomProvider>
-                <ChatAppShell>{children}</ChatAppShell>
-              </SelectedRoomProvider>
-            </SidebarProvider>
-          </ThemeProvider>
-        </SocketProvider>
+        <MessageStoreProvider>
+          <SocketProvider>
+            <ThemeProvider defaultTheme="system" enableSystem>
+              <SidebarProvider>
+                <SelectedRoomProvider>
+                  <ReadStateProvider>
+                    <ChatAppShell>{children}</ChatAppShell>
+                  </ReadStateProvider>
+                </SelectedRoomProvider>
+              </SidebarProvider>
+            </ThemeProvider>
+          </SocketProvider>
+        </MessageStoreProvider>
       </RoomProvider>
     </AuthProvider>
   );
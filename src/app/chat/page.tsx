@@ -1,26 +1,33 @@
-
 'use client';
 
-import { ChatView } from '@/components/chat/chat-view';
-import { useSelectedRoom } from '@/context/selected-room-context';
-import { MessageSquare } from 'lucide-react';
+import Link from 'next/link';
+import { Compass, MessageSquare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useRooms } from '@/context/room-context';
 
+// Rooms open at /chat/[roomId]; this is shown until one is picked
 export default function ChatPage() {
-  const { selectedRoomId } = useSelectedRoom();
-
-  if (!selectedRoomId) {
-    return (
-        <div className="flex h-full flex-col items-center justify-center bg-secondary">
-            <div className="flex flex-col items-center text-center">
-                <MessageSquare className="h-16 w-16 text-muted-foreground" />
-                <h1 className="mt-4 text-2xl font-semibold">Welcome to Aether Connect</h1>
-                <p className="mt-2 text-muted-foreground">
-                    Select a conversation from the sidebar to start messaging.
-                </p>
-            </div>
-        </div>
-    );
-  }
+  const { rooms } = useRooms();
+  // New users haven't joined anything yet, so point them at the directory
+  const hasRooms = rooms.length > 0;
 
-  return <ChatView conversationId={selectedRoomId} />;
+  return (
+      <div className="flex h-full flex-col items-center justify-center bg-secondary">
+          <div className="flex flex-col items-center text-center">
+              <MessageSquare className="h-16 w-16 text-muted-foreground" />
+              <h1 className="mt-4 text-2xl font-semibold">Welcome to Aether Connect</h1>
+              <p className="mt-2 text-muted-foreground">
+                  {hasRooms
+                    ? 'Select a conversation from the sidebar to start messaging.'
+                    : "You haven't joined any rooms yet. Find one to get started."}
+              </p>
+              <Button asChild variant={hasRooms ? 'outline' : 'default'} className="mt-6">
+                  <Link href="/chat/directory">
+                      <Compass className="mr-2 h-4 w-4" />
+                      Browse public rooms
+                  </Link>
+              </Button>
+          </div>
+      </div>
+  );
 }
@@ -1,5 +1,6 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import {
   Card,
   CardContent,
@@ -18,9 +19,29 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
+import { useChatSettings } from '@/hooks/use-chat-settings';
+import { useToast } from '@/hooks/use-toast';
 
 export default function SettingsPage() {
   const { theme, setTheme } = useTheme();
+  const { settings, updateSettings } = useChatSettings();
+  const { toast } = useToast();
+  const [readReceipts, setReadReceipts] = useState(settings.readReceipts);
+
+  // Follow the stored value once it has loaded (or changed in another tab)
+  useEffect(() => {
+    setReadReceipts(settings.readReceipts);
+  }, [settings.readReceipts]);
+
+  const handleSave = () => {
+    updateSettings({ readReceipts });
+    toast({
+      title: 'Settings saved',
+      description: readReceipts
+        ? 'Others can see when you have read their messages.'
+        : 'Others will no longer see when you read their messages.',
+    });
+  };
 
   return (
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
@@ -88,7 +109,7 @@ export default function SettingsPage() {
           <CardContent className="grid gap-4">
             <div className="flex items-center justify-between">
               <Label htmlFor="read-receipts">Read Receipts</Label>
-              <Switch id="read-receipts" defaultChecked />
+              <Switch id="read-receipts" checked={readReceipts} onCheckedChange={setReadReceipts} />
             </div>
             <div className="flex items-center justify-between">
               <Label htmlFor="typing-indicators">Show Typing Indicators</Label>
@@ -97,7 +118,7 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
         <div className="flex justify-start">
-            <Button>Save Changes</Button>
+            <Button onClick={handleSave}>Save Changes</Button>
         </div>
       </div>
     </div>
@@ -19,6 +19,13 @@ const loginSchema = z.object({
 
 type LoginData = z.infer<typeof loginSchema>;
 
+// Where to go after logging in: the chat page the middleware sent us away
+// from (passed as ?next=), or the chat home
+const getRedirectPath = () => {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next && next.startsWith("/chat") ? next : "/chat";
+};
+
 export function AuthLoginForm() {
   const { login, isLoading } = useAuth(); // Removed isAuthenticated
   const { toast } = useToast();
@@ -47,7 +54,7 @@ export function AuthLoginForm() {
       // No manual redirect here, the middleware will handle redirecting authenticated users from /login
       // to /chat if they try to access /login after successful login.
       // However, for a smoother UX, we can still push to /chat here.
-      router.push("/chat");
+      router.push(getRedirectPath());
     } else {
       toast({
         title: "Login Failed",
@@ -1,5 +1,5 @@
-import { ReactNode } from 'react'
-import { cn } from '@/lib/utils';
+import { ReactNode, useEffect, useState } from 'react'
+import { cn, formatRelativeTime, formatTypingUsers } from '@/lib/utils';
 import {
   Sidebar,
   SidebarContent,
@@ -33,11 +33,18 @@ import {
   Search,
   LogOut,
   ChevronDown,
+  BellOff,
+  SquarePen,
+  Compass,
 } from 'lucide-react';
 import { useRooms } from '@/context/room-context';
-import { useRouter } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { useSelectedRoom } from '@/context/selected-room-context';
 import { useAuth } from '@/context/auth-context';
+import { useSocketContext } from '@/context/socket-context';
+import { useRoomActivity } from '@/hooks/use-room-activity';
+import { isRoomMuted, useRoomMutes } from '@/hooks/use-room-mutes';
+import { NewConversationDialog } from '@/components/chat/new-conversation-dialog';
 export function ChatAppShell({
   children,
 }: {
@@ -47,7 +54,29 @@ export function ChatAppShell({
   const { user, logout, isLoading: isAuthLoading } = useAuth();
   const { rooms, isLoading: areRoomsLoading } = useRooms();
   const { selectedRoomId, setSelectedRoomId } = useSelectedRoom();
+  const {
+    data: { typingByRoom },
+    actions: { joinRoom },
+  } = useSocketContext();
+  const sortedRooms = useRoomActivity(rooms);
+  const roomMutes = useRoomMutes();
   const router = useRouter();
+  const pathname = usePathname();
+
+  // Re-render once a minute so relative timestamps don't go stale
+  const [, setClock] = useState(0);
+  useEffect(() => {
+    const clockTimer = setInterval(() => setClock(Date.now()), 60000);
+    return () => clearInterval(clockTimer);
+  }, []);
+
+  // Stay in every room so background conversations keep their previews and
+  // unread counts current. Rooms still being created have nothing to join yet.
+  useEffect(() => {
+    rooms.forEach((room) => {
+      if (!room.isPending) joinRoom(room.id);
+    });
+  }, [rooms, joinRoom]);
   
   if (isAuthLoading || areRoomsLoading) {
     return <div>Loading...</div>;
@@ -73,15 +102,59 @@ export function ChatAppShell({
               </div>
               {isMobile && <SidebarTrigger />}
             </div>
-            <div className="relative">
-              <Search className="absolute left-3 top-3 h-4 w-4 text-white/80" />
-              <Input placeholder="Search conversations..." className="pl-10 h-10 bg-white/10 text-white placeholder-white/70 border-white/20" />
+            <div className="flex items-center gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-white/80" />
+                <Input placeholder="Search conversations..." className="pl-10 h-10 bg-white/10 text-white placeholder-white/70 border-white/20" />
+              </div>
+              <NewConversationDialog>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-10 w-10 shrink-0 text-white hover:bg-white/10 hover:text-white"
+                  aria-label="New conversation"
+                  title="New conversation"
+                >
+                  <SquarePen className="h-4 w-4" />
+                </Button>
+              </NewConversationDialog>
             </div>
           </SidebarHeader>
 
+          <SidebarMenu className="px-3 pt-2">
+            <SidebarMenuItem>
+              <SidebarMenuButton
+                isActive={pathname === '/chat/directory'}
+                onClick={() => router.push('/chat/directory')}
+                tooltip={{ children: 'Browse rooms', side: 'right', align: 'center' }}
+              >
+                <Compass />
+                <span>Browse rooms</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+
           <SidebarMenu className="flex-1 px-3 py-2 space-y-1">
-            {rooms.map((room) => {
+            {sortedRooms.length === 0 && (
+              <p className="px-3 py-2 text-sm text-muted-foreground">
+                No rooms joined yet. Browse public rooms or start a new conversation.
+              </p>
+            )}
+            {sortedRooms.map((room) => {
               const isActive = selectedRoomId === room.id;
+              const typists = typingByRoom[room.id] ?? [];
+              const unreadCount = room.unreadCount ?? 0;
+              const { mentionCount } = room;
+              // Muted rooms still count unread messages, just quietly
+              const isMuted = isRoomMuted(roomMutes, room.id);
+              const isHighlighted = unreadCount > 0 && !isMuted;
+              const preview = room.isPending
+                ? 'Creating…'
+                : room.lastMessage
+                ? `${room.lastMessage.userId === user?.id ? 'You' : room.lastMessage.username}: ${
+                    room.lastMessage.deletedAt ? 'Message deleted' : room.lastMessage.content
+                  }`
+                : `${room.members?.length || 0} members`;
               return (
                 <SidebarMenuItem key={room.id} className="relative" onClick={() => setSelectedRoomId(room.id)}>
                     <SidebarMenuButton
@@ -103,16 +176,58 @@ export function ChatAppShell({
                       </Avatar>
                       <div className="flex flex-1 flex-col items-start text-left min-w-0 ml-3">
                         <div className="flex justify-between w-full items-center">
-                          <span className="font-medium truncate text-sm">{room.name}</span>
-                           <span className="text-xs text-muted-foreground shrink-0">
-                            {/* Display last message timestamp here */}
+                          <span className="flex items-center min-w-0">
+                            <span className={cn("truncate text-sm", isHighlighted ? "font-semibold" : "font-medium")}>
+                              {room.name}
+                            </span>
+                            {isMuted && (
+                              <BellOff className="ml-1 h-3 w-3 shrink-0 text-muted-foreground" aria-label="Muted" />
+                            )}
                           </span>
+                          {room.lastMessage && (
+                            <span
+                              className={cn(
+                                "text-xs shrink-0 ml-2",
+                                isHighlighted ? "text-primary font-medium" : "text-muted-foreground"
+                              )}
+                            >
+                              {formatRelativeTime(room.lastMessage.createdAt)}
+                            </span>
+                          )}
                         </div>
                         <div className="flex justify-between w-full items-center mt-1">
-                          <span className="text-xs text-muted-foreground truncate">
-                            {room.members?.length || 0} members
-                          </span>
-                           {/* Display unread count here */}
+                          {typists.length > 0 ? (
+                            <span className="text-xs text-primary truncate">
+                              {formatTypingUsers(typists.map((t) => t.username))}
+                            </span>
+                          ) : (
+                            <span
+                              className={cn(
+                                "text-xs truncate",
+                                isHighlighted ? "text-foreground" : "text-muted-foreground"
+                              )}
+                            >
+                              {preview}
+                            </span>
+                          )}
+                          {mentionCount > 0 && (
+                            <span
+                              className="ml-2 flex h-5 min-w-5 shrink-0 items-center justify-center rounded-full bg-amber-500 px-1.5 text-xs font-semibold tabular-nums text-white"
+                              aria-label={`${mentionCount} unread ${mentionCount === 1 ? 'mention' : 'mentions'}`}
+                            >
+                              @{mentionCount > 9 ? '9+' : mentionCount}
+                            </span>
+                          )}
+                          {unreadCount > 0 && (
+                            <span
+                              className={cn(
+                                "ml-1 flex h-5 min-w-5 shrink-0 items-center justify-center rounded-full px-1.5 text-xs font-medium tabular-nums",
+                                isMuted ? "bg-muted text-muted-foreground" : "bg-primary text-primary-foreground"
+                              )}
+                            >
+                              {unreadCount > 99 ? '99+' : unreadCount}
+                            </span>
+                          )}
                         </div>
                       </div>
                     </SidebarMenuButton>
@@ -1,15 +1,19 @@
-import { Phone, Video, MoreVertical, Wifi, WifiOff, Loader2 } from 'lucide-react';
+import { Phone, Video, MoreVertical, Wifi, WifiOff, Loader2, RotateCw } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import type { Room } from '@/lib/types';
 import { SidebarTrigger } from '../ui/sidebar';
 import { useSocketContext } from '@/context/socket-context';
-import { cn } from '@/lib/utils';
+import { useRoomMessages } from '@/context/message-store-context';
+import { cn, formatTypingUsers } from '@/lib/utils';
+import { ConnectionDiagnostics } from './connection-diagnostics';
 
-export function ChatHeader({ room }: { room: Room }) {
+export function ChatHeader({ room, onOpenMembers }: { room: Room; onOpenMembers?: () => void }) {
   const { 
-    data: { isConnected, connectionState, typingUsers }
+    data: { isConnected, connectionState, typingByRoom, lastResync, rejoiningRooms },
+    actions: { retryFailedMessages },
   } = useSocketContext();
+  const roomMessages = useRoomMessages(room.id);
 
   const getInitials = (name?: string) => {
     if (!name) return '?';
@@ -32,7 +36,9 @@ export function ChatHeader({ room }: { room: Room }) {
 
   const connectionStatus = getConnectionStatus();
   const ConnectionIcon = connectionStatus.icon;
-  const typingArray = Array.from(typingUsers);
+  const typists = typingByRoom[room.id] ?? [];
+  const isRejoining = rejoiningRooms.includes(room.id);
+  const failedCount = roomMessages.filter((m) => m.status === 'failed').length;
 
   return (
     <div className="flex h-16 items-center border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 px-4 shrink-0 animate-fade-in">
@@ -47,18 +53,38 @@ export function ChatHeader({ room }: { room: Room }) {
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <span className="font-semibold truncate text-base animate-fade-in">{displayName}</span>
-          <ConnectionIcon 
-            className={cn(
-              "h-4 w-4",
-              connectionStatus.color,
-              connectionState === 'connecting' && "animate-spin"
-            )} 
-          />
+          <ConnectionDiagnostics>
+            <button
+              type="button"
+              className="rounded-sm p-0.5 hover:bg-muted/80 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-label="Connection diagnostics"
+            >
+              <ConnectionIcon 
+                className={cn(
+                  "h-4 w-4",
+                  connectionStatus.color,
+                  connectionState === 'connecting' && "animate-spin"
+                )} 
+              />
+            </button>
+          </ConnectionDiagnostics>
+          {lastResync && (
+            <span className="text-xs text-green-600 dark:text-green-400 animate-fade-in truncate">
+              {lastResync.reloadedRooms.includes(room.id)
+                ? 'Reconnected — reloaded recent messages'
+                : `Reconnected — synced ${lastResync.count} ${lastResync.count === 1 ? 'message' : 'messages'}`}
+            </span>
+          )}
         </div>
         <div className="text-sm text-muted-foreground font-medium">
-          {typingArray.length > 0 ? (
+          {isRejoining ? (
+            <span className="flex items-center gap-1 text-yellow-600 dark:text-yellow-400">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              rejoining…
+            </span>
+          ) : typists.length > 0 ? (
             <span className="text-primary animate-pulse">
-              {typingArray.length === 1 ? `${typingArray[0]} is typing...` : `${typingArray.length} people typing...`}
+              {formatTypingUsers(typists.map((t) => t.username))}
             </span>
           ) : (
             `${memberCount} ${memberCount === 1 ? 'member' : 'members'}`
@@ -67,13 +93,31 @@ export function ChatHeader({ room }: { room: Room }) {
       </div>
 
       <div className="flex gap-1">
+        {failedCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-9 gap-1 text-destructive hover:bg-destructive/10 hover:text-destructive"
+            onClick={() => retryFailedMessages(room.id)}
+          >
+            <RotateCw className="h-4 w-4" />
+            <span className="text-xs font-medium">Retry all failed ({failedCount})</span>
+          </Button>
+        )}
         <Button variant="ghost" size="icon" className="h-9 w-9 hover:bg-muted/80" disabled={!isConnected}>
           <Phone className="h-4 w-4" />
         </Button>
         <Button variant="ghost" size="icon" className="h-9 w-9 hover:bg-muted/80" disabled={!isConnected}>
           <Video className="h-4 w-4" />
         </Button>
-        <Button variant="ghost" size="icon" className="h-9 w-9 hover:bg-muted/80">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9 hover:bg-muted/80"
+          onClick={onOpenMembers}
+          aria-label="Members"
+          title="Members"
+        >
           <MoreVertical className="h-4 w-4" />
         </Button>
       </div>
@@ -1,125 +1,193 @@
 'use client';
 
-import { useEffect, useRef, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import { useSocketContext } from '@/context/socket-context';
 import { MessageInput } from '@/components/chat/message-input';
-import { MessageList } from '@/components/chat/message-list';
-import { Message } from '@/lib/types';
+import { MessageList, isEditableMessage } from '@/components/chat/message-list';
 import { useAuth } from '@/context/auth-context';
-import { Room } from '@/lib/types';
+import { Message, Room } from '@/lib/types';
 import { ChatHeader } from './chat-header';
+import { ConnectionBanner } from './connection-banner';
+import { ThreadPanel } from './thread-panel';
+import { MembersPanel } from './members-panel';
 import { useMessageHistory } from '@/hooks/use-message-history';
+import { useRoomMembers } from '@/hooks/use-room-members';
 import { useRooms } from '@/context/room-context';
+import { useReadState } from '@/context/read-state-context';
+import { messagePath } from '@/context/selected-room-context';
+import { useLinkedMessage } from '@/hooks/use-linked-message';
+import { useToast } from '@/hooks/use-toast';
+import type { ReadReceipt } from '@/hooks/use-socket';
 
 interface ChatViewProps {
   conversationId: string;
+  // Set when opened through a message link; the message is loaded, scrolled to and highlighted
+  focusMessageId?: string;
 }
 
-export function ChatView({ conversationId }: ChatViewProps) {
+export function ChatView({ conversationId, focusMessageId }: ChatViewProps) {
   const { user } = useAuth();
   const {
-    data: { realtimeMessages, isConnected },
-    actions: { joinRoom, leaveRoom, clearMessages },
+    data: { readReceiptsByRoom },
+    actions: { joinRoom, retryMessage, discardMessage, markMessageRead, editMessage, deleteMessage, toggleReaction },
   } = useSocketContext();
   
-  const { historyMessages, isLoadingHistory, loadMoreHistory, hasMore } = useMessageHistory(conversationId);
-  const { findRoomById } = useRooms();
+  // History and live messages of this room, merged and ordered by the store
+  const { messages: allMessages, isLoadingHistory, loadMoreHistory, hasMore } = useMessageHistory(conversationId);
+  const { rooms } = useRooms();
+  const { getLastReadAt, markRoomRead } = useReadState();
+  const { toast } = useToast();
+  const { message: linkedMessage, status: linkStatus } = useLinkedMessage(conversationId, focusMessageId);
   
   const [room, setRoom] = useState<Room | null>(null);
   const currentRoomRef = useRef<string | null>(null);
-  const lastMessageCountRef = useRef(0);
-  const [shouldAutoScroll, setShouldAutoScroll] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [isMembersOpen, setIsMembersOpen] = useState(false);
+  const [isAtLatest, setIsAtLatest] = useState(true);
+  // The last-read marker as it was on entering the room; the live one moves
+  // on as soon as messages are read, but the divider should stay put
+  const [readMarkerOnEntry, setReadMarkerOnEntry] = useState<{ roomId: string; lastReadAt?: string } | null>(null);
 
-  // Memoize room lookup
+  // Memoize room lookup; follows the room list so membership changes show up
   const roomDetails = useMemo(() => {
-    return findRoomById(conversationId);
-  }, [findRoomById, conversationId]);
+    return rooms.find((r) => r.id === conversationId);
+  }, [rooms, conversationId]);
 
-  // Handle room changes with smooth transition
+  // Handle room changes. Rooms visited earlier stay joined so their messages
+  // keep accumulating in the store; joining works while offline too, useSocket
+  // remembers the room and joins it once connected.
   useEffect(() => {
-    if (!conversationId || !isConnected) return;
+    if (!conversationId) return;
     
-    // Always clear messages when room changes, even if it's the same room
     if (currentRoomRef.current !== conversationId) {
-      // Leave previous room
-      if (currentRoomRef.current) {
-        leaveRoom(currentRoomRef.current);
-      }
-
-      // Clear ALL messages immediately
-      clearMessages();
-      
-      // Join new room
       setRoom(roomDetails || null);
       joinRoom(conversationId);
       currentRoomRef.current = conversationId;
+      setEditingMessageId(null);
+      setReplyTo(null);
+      setOpenThreadId(null);
+      setIsMembersOpen(false);
+      setIsAtLatest(true);
+      setReadMarkerOnEntry({ roomId: conversationId, lastReadAt: getLastReadAt(conversationId) });
     }
-  }, [conversationId, isConnected, leaveRoom, clearMessages, joinRoom, roomDetails]);
+  }, [conversationId, joinRoom, roomDetails, getLastReadAt]);
+
+  const unreadAfter =
+    readMarkerOnEntry?.roomId === conversationId
+      ? readMarkerOnEntry.lastReadAt
+      : getLastReadAt(conversationId);
+
+  const { members, isLoading: areMembersLoading, refresh: refreshMembers } = useRoomMembers(room);
+  const memberNames = useMemo(
+    () => new Map(members.map((member) => [member.id, member.username])),
+    [members]
+  );
+
+  // Thread replies live in the thread panel; the timeline shows reply counts instead
+  const timelineMessages = useMemo(
+    () => allMessages.filter((m) => !m.threadId),
+    [allMessages]
+  );
+
+  const replyCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allMessages.forEach((m) => {
+      if (m.threadId && !m.deletedAt) counts[m.threadId] = (counts[m.threadId] ?? 0) + 1;
+    });
+    return counts;
+  }, [allMessages]);
 
-  // Auto-scroll to bottom when messages load for new room
+  // The thread and members panels share the side of the screen; one at a time
+  const openThread = useCallback((message: Message) => {
+    setIsMembersOpen(false);
+    setOpenThreadId(message.id);
+  }, []);
+
+  const openMembers = useCallback(() => {
+    setOpenThreadId(null);
+    setIsMembersOpen((open) => !open);
+  }, []);
+
+  // Links to thread replies open their thread, which then shows the reply
+  const linkedThreadId = linkedMessage?.threadId;
   useEffect(() => {
-    if (historyMessages.length > 0 && !isLoadingHistory) {
-      setShouldAutoScroll(true);
+    if (!linkedThreadId) return;
+    setIsMembersOpen(false);
+    setOpenThreadId(linkedThreadId);
+  }, [linkedThreadId]);
+
+  useEffect(() => {
+    if (linkStatus !== 'missing') return;
+    toast({
+      variant: 'destructive',
+      title: 'Message not found',
+      description: "It may have been deleted, or it's too far back in the conversation.",
+    });
+  }, [linkStatus, toast]);
+
+  const copyMessageLink = useCallback(async (message: Message) => {
+    const url = `${window.location.origin}${messagePath(conversationId, message.id)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: 'Link copied' });
+    } catch (error) {
+      console.error('Failed to copy message link:', error);
+      toast({ variant: 'destructive', title: "Couldn't copy the link" });
     }
-  }, [historyMessages.length, isLoadingHistory]);
+  }, [conversationId, toast]);
 
   // Update room details when room data changes
   useEffect(() => {
     setRoom(roomDetails || null);
   }, [roomDetails]);
 
-  // Combine messages - ONLY for current room
-  const allMessages = useMemo(() => {
-    // Filter messages to only include current room
-    const roomHistoryMessages = historyMessages.filter(msg => msg.roomId === conversationId);
-    const roomRealtimeMessages = realtimeMessages.filter(msg => msg.roomId === conversationId);
-    
-    const messageMap = new Map<string, Message>();
-
-    // Add historical messages first
-    roomHistoryMessages.forEach(msg => {
-      if (msg.id) {
-        messageMap.set(msg.id, msg);
-      } else if (msg.tempId) {
-        messageMap.set(msg.tempId, msg);
+  // Opening a room reads it while the tab is visible; after that, messages
+  // arriving while scrolled up stay unread until the newest one is in view
+  const latestMessageAt = allMessages[allMessages.length - 1]?.createdAt;
+  useEffect(() => {
+    if (!latestMessageAt || !isAtLatest) return;
+
+    const markRead = () => {
+      if (document.visibilityState === 'visible') {
+        markRoomRead(conversationId, latestMessageAt);
       }
-    });
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [conversationId, latestMessageAt, isAtLatest, markRoomRead]);
 
-    // Add real-time messages, overwriting historical if IDs match
-    roomRealtimeMessages.forEach(msg => {
-      if (msg.id) {
-        messageMap.set(msg.id, msg); // Overwrite if historical message with same ID exists
-      } else if (msg.tempId) {
-        messageMap.set(msg.tempId, msg); // Use tempId if no real ID yet
+  // Place each member's read marker on the newest message it covers
+  const roomReceipts = readReceiptsByRoom[conversationId];
+  const seenBy = useMemo(() => {
+    const byMessage: Record<string, ReadReceipt[]> = {};
+    Object.values(roomReceipts ?? {}).forEach((receipt) => {
+      const readUpTo = new Date(receipt.readUpTo).getTime();
+      for (let i = timelineMessages.length - 1; i >= 0; i--) {
+        if (new Date(timelineMessages[i].createdAt).getTime() <= readUpTo) {
+          (byMessage[timelineMessages[i].id] ??= []).push(receipt);
+          break;
+        }
       }
     });
-    
-    return Array.from(messageMap.values()).sort((a, b) => 
-      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-    );
-  }, [historyMessages, realtimeMessages, conversationId]);
+    return byMessage;
+  }, [roomReceipts, timelineMessages]);
 
-  // Auto-scroll for new messages
-  useEffect(() => {
-    const messageCount = allMessages.length;
-    if (messageCount > lastMessageCountRef.current) {
-      setShouldAutoScroll(true);
+  const editLastMessage = useCallback(() => {
+    if (!user) return;
+    const lastOwn = [...timelineMessages].reverse().find((m) => m.userId === user.id);
+    if (lastOwn && isEditableMessage(lastOwn, user.id)) {
+      setEditingMessageId(lastOwn.id);
     }
-    lastMessageCountRef.current = messageCount;
-  }, [allMessages]);
+  }, [timelineMessages, user]);
 
   // Get last message for smart replies
   const lastMessageForSmartReplies = useMemo(() => {
-    return allMessages[allMessages.length - 1]?.content;
-  }, [allMessages]);
-
-  // Reset auto-scroll after it's been used
-  useEffect(() => {
-    if (shouldAutoScroll) {
-      const timer = setTimeout(() => setShouldAutoScroll(false), 1000);
-      return () => clearTimeout(timer);
-    }
-  }, [shouldAutoScroll]);
+    return timelineMessages[timelineMessages.length - 1]?.content;
+  }, [timelineMessages]);
 
   if (!user) {
     return (
@@ -146,30 +214,87 @@ export function ChatView({ conversationId }: ChatViewProps) {
   }
 
   return (
-    <div className="flex flex-col h-screen bg-gradient-to-b from-background to-muted/20">
-      {/* Fixed Header */}
-      <div className="shrink-0 animate-fade-in">
-        <ChatHeader room={room} />
-      </div>
+    <div className="relative flex h-screen bg-gradient-to-b from-background to-muted/20">
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Fixed Header */}
+        <div className="shrink-0 animate-fade-in">
+          <ChatHeader room={room} onOpenMembers={openMembers} />
+          <ConnectionBanner />
+        </div>
 
-      {/* Scrollable Messages - takes remaining space minus input area */}
-      <div className="flex-1 overflow-hidden min-h-0">
-        <MessageList
-          messages={allMessages}
-          currentUserId={user.id}
-          isLoading={isLoadingHistory}
-          onLoadMore={hasMore ? loadMoreHistory : undefined}
-          shouldAutoScroll={shouldAutoScroll}
-        />
-      </div>
+        {/* Scrollable Messages - takes remaining space minus input area */}
+        <div className="flex-1 overflow-hidden min-h-0">
+          {/* Keyed by room so each one opens at its latest message */}
+          <MessageList
+            key={conversationId}
+            messages={timelineMessages}
+            currentUserId={user.id}
+            isLoading={isLoadingHistory}
+            onLoadMore={hasMore ? loadMoreHistory : undefined}
+            onRetryMessage={retryMessage}
+            onDiscardMessage={discardMessage}
+            onMessageSeen={markMessageRead}
+            seenBy={seenBy}
+            isGroupRoom={room.roomType !== 'direct'}
+            onEditMessage={editMessage}
+            onDeleteMessage={deleteMessage}
+            editingMessageId={editingMessageId}
+            onEditingMessageChange={setEditingMessageId}
+            onToggleReaction={toggleReaction}
+            onReply={setReplyTo}
+            onOpenThread={openThread}
+            replyCounts={replyCounts}
+            memberNames={memberNames}
+            unreadAfter={unreadAfter}
+            onAtEndChange={setIsAtLatest}
+            focusMessageId={linkedMessage && !linkedThreadId ? linkedMessage.id : undefined}
+            onCopyLink={copyMessageLink}
+          />
+        </div>
 
-      {/* Input Area - Can expand downward */}
-      <div className="flex-shrink-0">
-        <MessageInput
-          conversationId={conversationId}
-          lastMessage={lastMessageForSmartReplies}
-        />
+        {/* Input Area - Can expand downward */}
+        <div className="flex-shrink-0">
+          <MessageInput
+            conversationId={conversationId}
+            lastMessage={lastMessageForSmartReplies}
+            onEditLastMessage={editLastMessage}
+            replyTo={replyTo}
+            onCancelReply={() => setReplyTo(null)}
+            members={members}
+          />
+        </div>
       </div>
+
+      {/* Thread side panel; covers the conversation on small screens */}
+      {openThreadId && (
+        <div className="absolute inset-0 z-20 md:static md:w-96 md:shrink-0">
+          <ThreadPanel
+            key={openThreadId}
+            roomId={conversationId}
+            threadId={openThreadId}
+            currentUserId={user.id}
+            isGroupRoom={room.roomType !== 'direct'}
+            members={members}
+            memberNames={memberNames}
+            focusMessageId={linkedThreadId === openThreadId ? linkedMessage?.id : undefined}
+            onCopyLink={copyMessageLink}
+            onClose={() => setOpenThreadId(null)}
+          />
+        </div>
+      )}
+
+      {isMembersOpen && (
+        <div className="absolute inset-0 z-20 md:static md:w-80 md:shrink-0">
+          <MembersPanel
+            room={room}
+            members={members}
+            isLoading={areMembersLoading}
+            currentUser={user}
+            onMembersChange={refreshMembers}
+            onClose={() => setIsMembersOpen(false)}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { CloudOff, RotateCw, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useSocketContext } from '@/context/socket-context';
+
+// Stays visible for as long as the socket has given up (or the browser has no
+// network), since messages sent meanwhile only land in the outbox.
+export function ConnectionBanner() {
+  const {
+    data: { isShutdown, isOffline, connectionState },
+    actions: { reconnect },
+  } = useSocketContext();
+
+  if (isOffline) {
+    return (
+      <div role="status" className="flex items-center gap-3 border-b bg-muted px-4 py-2 text-sm animate-fade-in">
+        <WifiOff className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <span className="flex-1 text-muted-foreground">
+          You&apos;re offline. Messages will be sent once your connection is back.
+        </span>
+      </div>
+    );
+  }
+
+  if (!isShutdown) return null;
+
+  return (
+    <div role="alert" className="flex items-center gap-3 border-b bg-destructive/10 px-4 py-2 text-sm animate-fade-in">
+      <CloudOff className="h-4 w-4 shrink-0 text-destructive" />
+      <span className="flex-1 text-destructive">
+        Lost connection to the chat server. New messages are queued until you reconnect.
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-8 gap-2"
+        onClick={reconnect}
+        disabled={connectionState === 'connecting'}
+      >
+        <RotateCw className="h-4 w-4" />
+        Reconnect
+      </Button>
+    </div>
+  );
+}
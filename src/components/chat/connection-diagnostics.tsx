@@ -0,0 +1,122 @@
+import type { ReactNode } from 'react';
+import { RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { useSocketContext } from '@/context/socket-context';
+import { cn } from '@/lib/utils';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const getLatencyColor = (latencyMs: number | null) => {
+  if (latencyMs === null) return 'text-muted-foreground';
+  if (latencyMs < 150) return 'text-green-600 dark:text-green-400';
+  if (latencyMs < 500) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+const historyLabels = {
+  connected: 'Connected',
+  disconnected: 'Disconnected',
+  error: 'Error',
+  shutdown: 'Gave up reconnecting',
+  offline: 'Browser went offline',
+  restart: 'Restarted',
+} as const;
+
+function DiagnosticsRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex items-center justify-between gap-4 text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right truncate">{children}</span>
+    </div>
+  );
+}
+
+export function ConnectionDiagnostics({ children }: { children: ReactNode }) {
+  const {
+    data: { connectionState, lastError, reconnectAttempts, isShutdown, diagnostics },
+    actions: { reconnect },
+  } = useSocketContext();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="p-4 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-semibold">Connection</span>
+            <span className="text-xs capitalize text-muted-foreground">
+              {isShutdown ? 'offline' : connectionState}
+            </span>
+          </div>
+          <DiagnosticsRow label="Latency">
+            <span className={getLatencyColor(diagnostics.latencyMs)}>
+              {diagnostics.latencyMs !== null ? `${diagnostics.latencyMs} ms` : '—'}
+            </span>
+          </DiagnosticsRow>
+          <DiagnosticsRow label="Transport">{diagnostics.transport ?? '—'}</DiagnosticsRow>
+          <DiagnosticsRow label="Connected since">
+            {diagnostics.connectedSince ? formatTime(diagnostics.connectedSince) : '—'}
+          </DiagnosticsRow>
+          <DiagnosticsRow label="Last disconnect">
+            {diagnostics.lastDisconnectReason ?? '—'}
+          </DiagnosticsRow>
+          <DiagnosticsRow label="Reconnect attempts">{reconnectAttempts}</DiagnosticsRow>
+          <DiagnosticsRow label="Messages in / out">
+            {diagnostics.messagesIn} / {diagnostics.messagesOut}
+          </DiagnosticsRow>
+          <DiagnosticsRow label="Per minute (in / out)">
+            {diagnostics.messagesInPerMinute} / {diagnostics.messagesOutPerMinute}
+          </DiagnosticsRow>
+          {lastError && <p className="text-xs text-destructive break-words">{lastError}</p>}
+        </div>
+
+        <Separator />
+
+        <div className="p-4 pb-2">
+          <span className="text-xs font-semibold text-muted-foreground">History</span>
+        </div>
+        <ScrollArea className="h-32 px-4">
+          {diagnostics.connectionHistory.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No connection events yet</p>
+          ) : (
+            <ul className="space-y-1 pb-2">
+              {diagnostics.connectionHistory.map((entry) => (
+                <li key={`${entry.at}-${entry.type}`} className="flex gap-2 text-xs">
+                  <span className="text-muted-foreground tabular-nums">{formatTime(entry.at)}</span>
+                  <span
+                    className={cn(
+                      entry.type === 'connected' && 'text-green-600 dark:text-green-400',
+                      (entry.type === 'error' || entry.type === 'shutdown') && 'text-destructive'
+                    )}
+                  >
+                    {historyLabels[entry.type]}
+                  </span>
+                  {entry.detail && <span className="text-muted-foreground truncate">{entry.detail}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+
+        <Separator />
+
+        <div className="p-3">
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full gap-2"
+            onClick={reconnect}
+            disabled={connectionState === 'connecting'}
+          >
+            <RotateCw className="h-4 w-4" />
+            Reconnect
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
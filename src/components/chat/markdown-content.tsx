@@ -0,0 +1,187 @@
+'use client';
+
+import { Fragment, createContext, memo, useContext, useEffect, useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/lib/markdown';
+import { CodeTokenType, highlightCode } from '@/lib/syntax-highlight';
+import { useToast } from '@/hooks/use-toast';
+import { MessageMention } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const TOKEN_CLASSES: Record<CodeTokenType, string | undefined> = {
+  plain: undefined,
+  comment: 'text-zinc-500 italic',
+  string: 'text-emerald-400',
+  number: 'text-amber-300',
+  keyword: 'text-sky-400',
+};
+
+const COPIED_DURATION = 2000;
+
+// Who is reading, and the current names of the room's members, for mention pills
+const MentionContext = createContext<{ currentUserId?: string; memberNames?: Map<string, string> }>({});
+
+function MentionPill({ userId, username }: { userId: string; username: string }) {
+  const { currentUserId, memberNames } = useContext(MentionContext);
+  const isMe = userId === currentUserId;
+
+  return (
+    <span
+      className={cn(
+        'rounded px-1 py-0.5 font-semibold whitespace-nowrap',
+        isMe ? 'bg-amber-400/40 text-foreground' : 'bg-black/10 dark:bg-white/15'
+      )}
+    >
+      @{memberNames?.get(userId) ?? username}
+    </span>
+  );
+}
+
+function CodeBlock({ code, language }: { code: string; language?: string }) {
+  const { toast } = useToast();
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_DURATION);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy failed', description: 'The clipboard is not available.' });
+    }
+  };
+
+  return (
+    <div className="my-1 overflow-hidden rounded-md border border-zinc-800 bg-zinc-950 text-zinc-100 font-normal">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-zinc-800 text-[11px] text-zinc-400">
+        <span>{language || 'code'}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="flex items-center gap-1 hover:text-zinc-100 transition-colors"
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-xs leading-relaxed">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>
+              {token.text}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function InlineNodes({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <Fragment key={index}>{node.text}</Fragment>;
+          case 'break':
+            return <br key={index} />;
+          case 'mention':
+            return <MentionPill key={index} userId={node.userId} username={node.username} />;
+          case 'code':
+            return (
+              <code key={index} className="rounded bg-black/10 dark:bg-white/10 px-1 py-0.5 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            );
+          case 'strong':
+            return <strong key={index} className="font-bold"><InlineNodes nodes={node.children} /></strong>;
+          case 'emphasis':
+            return <em key={index}><InlineNodes nodes={node.children} /></em>;
+          case 'strike':
+            return <s key={index}><InlineNodes nodes={node.children} /></s>;
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="underline underline-offset-2 break-all hover:opacity-80"
+              >
+                <InlineNodes nodes={node.children} />
+              </a>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks }: { blocks: MarkdownBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return <p key={index}><InlineNodes nodes={block.children} /></p>;
+          case 'code':
+            return <CodeBlock key={index} code={block.code} language={block.language} />;
+          case 'blockquote':
+            return (
+              <blockquote key={index} className="border-l-2 border-current pl-3 opacity-80">
+                <Blocks blocks={block.children} />
+              </blockquote>
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex}><InlineNodes nodes={item} /></li>
+            ));
+            return block.ordered ? (
+              <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+            ) : (
+              <ul key={index} className="list-disc pl-5 space-y-0.5">{items}</ul>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  mentions?: MessageMention[];
+  currentUserId?: string;
+  // userId → current username, so mentions survive renames
+  memberNames?: Map<string, string>;
+}
+
+// Renders a chat message's markdown. Memoized because bubbles re-render on
+// every status, reaction and receipt change while their content rarely does.
+export const MarkdownContent = memo(function MarkdownContent({
+  content,
+  className,
+  mentions,
+  currentUserId,
+  memberNames,
+}: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content, mentions), [content, mentions]);
+  const mentionContext = useMemo(() => ({ currentUserId, memberNames }), [currentUserId, memberNames]);
+
+  return (
+    <MentionContext.Provider value={mentionContext}>
+      <div className={cn('space-y-2 break-words', className)}>
+        <Blocks blocks={blocks} />
+      </div>
+    </MentionContext.Provider>
+  );
+});
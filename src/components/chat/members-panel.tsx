@@ -0,0 +1,282 @@
+'use client';
+
+import { FormEvent, useMemo, useState } from 'react';
+import { Loader2, MoreHorizontal, Shield, ShieldOff, UserMinus, UserPlus, X } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useRooms } from '@/context/room-context';
+import { useSocketContext } from '@/context/socket-context';
+import { useToast } from '@/hooks/use-toast';
+import { inviteToRoom, removeFromRoom, updateMemberRole } from '@/lib/api';
+import { getRoomPermissions, getRoomRole, ROOM_ROLE_LABELS } from '@/lib/permissions';
+import { Room, RoomMember, User } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface MembersPanelProps {
+  room: Room;
+  members: RoomMember[];
+  isLoading?: boolean;
+  currentUser: User;
+  // Reloads the member list after a change, resolving with the new list
+  onMembersChange: () => Promise<RoomMember[] | undefined>;
+  onClose: () => void;
+}
+
+const ROLE_ORDER = { owner: 0, admin: 1, member: 2 } as const;
+
+// Side panel listing a room's members. Owners and admins can invite, remove and
+// promote people from here; which actions show up follows lib/permissions.
+export function MembersPanel({ room, members, isLoading, currentUser, onMembersChange, onClose }: MembersPanelProps) {
+  const {
+    data: { isConnected },
+  } = useSocketContext();
+  const { replaceRoom } = useRooms();
+  const { toast } = useToast();
+  const [inviteName, setInviteName] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyMemberId, setBusyMemberId] = useState<string | null>(null);
+  const [pendingRemoval, setPendingRemoval] = useState<RoomMember | null>(null);
+
+  const permissions = getRoomPermissions(room, currentUser, members);
+
+  const sortedMembers = useMemo(
+    () =>
+      [...members].sort(
+        (a, b) =>
+          ROLE_ORDER[getRoomRole(room, a)] - ROLE_ORDER[getRoomRole(room, b)] ||
+          a.username.localeCompare(b.username)
+      ),
+    [room, members]
+  );
+
+  const handleInvite = async (event: FormEvent) => {
+    event.preventDefault();
+    const username = inviteName.trim().replace(/^@/, '');
+    if (!username) return;
+    if (members.some((member) => member.username === username)) {
+      toast({ title: `${username} is already in this room`, variant: 'destructive' });
+      return;
+    }
+
+    setIsInviting(true);
+    const response = await inviteToRoom(room.id, username);
+    setIsInviting(false);
+
+    if (!response.success) {
+      toast({ title: `Could not add ${username}`, description: response.message, variant: 'destructive' });
+      return;
+    }
+    setInviteName('');
+    const refreshed = await onMembersChange();
+    // Keeps the sidebar and header counts, and the permission checks, in step.
+    // Without the updated room in the response the new member's id comes from
+    // the refreshed list.
+    const invited = refreshed?.find((member) => member.username === username);
+    if (response.room) {
+      replaceRoom(room.id, response.room);
+    } else if (invited && !room.members.includes(invited.id)) {
+      replaceRoom(room.id, { ...room, members: [...room.members, invited.id] });
+    }
+    toast({ title: `${username} was added to the room` });
+  };
+
+  const handleRemove = async (member: RoomMember) => {
+    setBusyMemberId(member.id);
+    const response = await removeFromRoom(room.id, member.id);
+    setBusyMemberId(null);
+
+    if (!response.success) {
+      toast({ title: `Could not remove ${member.username}`, description: response.message, variant: 'destructive' });
+      return;
+    }
+    replaceRoom(room.id, response.room ?? { ...room, members: room.members.filter((id) => id !== member.id) });
+    await onMembersChange();
+    toast({ title: `${member.username} was removed from the room` });
+  };
+
+  const handleRoleChange = async (member: RoomMember, role: 'admin' | 'member') => {
+    setBusyMemberId(member.id);
+    const response = await updateMemberRole(room.id, member.id, role);
+    setBusyMemberId(null);
+
+    if (!response.success) {
+      toast({ title: `Could not change ${member.username}'s role`, description: response.message, variant: 'destructive' });
+      return;
+    }
+    await onMembersChange();
+    toast({
+      title: role === 'admin' ? `${member.username} is now an admin` : `${member.username} is no longer an admin`,
+    });
+  };
+
+  return (
+    <aside className="flex flex-col h-full bg-background border-l animate-fade-in">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b shrink-0">
+        <div>
+          <h2 className="text-sm font-semibold">Members</h2>
+          <p className="text-xs text-muted-foreground">
+            {members.length} {members.length === 1 ? 'member' : 'members'}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Close members">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {permissions.canInvite && (
+        <form onSubmit={handleInvite} className="flex gap-2 px-4 py-3 border-b shrink-0">
+          <Input
+            value={inviteName}
+            onChange={(event) => setInviteName(event.target.value)}
+            placeholder="Add by username"
+            className="h-9"
+            aria-label="Username to add"
+            autoComplete="off"
+          />
+          <Button type="submit" size="sm" className="h-9 shrink-0" disabled={isInviting || !inviteName.trim()}>
+            {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            <span className="sr-only">Add member</span>
+          </Button>
+        </form>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0 py-2">
+        {isLoading && members.length === 0 ? (
+          <div className="flex justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <ul>
+            {sortedMembers.map((member) => {
+              const role = getRoomRole(room, member);
+              const isSelf = member.id === currentUser.id;
+              // The members endpoint can't know about this tab's own connection
+              const isOnline = isSelf ? isConnected : Boolean(member.isOnline);
+              const canRemove = permissions.canRemove(member);
+              const canPromote = permissions.canPromote(member);
+              const canDemote = permissions.canDemote(member);
+              const hasActions = canRemove || canPromote || canDemote;
+
+              return (
+                <li key={member.id} className="flex items-center gap-3 px-4 py-2 hover:bg-muted/50">
+                  <div className="relative shrink-0">
+                    <Avatar className="h-9 w-9">
+                      <AvatarImage src={member.avatarUrl} alt={member.username} />
+                      <AvatarFallback className="text-xs font-medium">
+                        {member.username.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span
+                      className={cn(
+                        'absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full ring-2 ring-background',
+                        isOnline ? 'bg-green-500' : 'bg-muted-foreground/40'
+                      )}
+                      aria-label={isOnline ? 'Online' : 'Offline'}
+                    />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">
+                      {member.username}
+                      {isSelf && <span className="font-normal text-muted-foreground"> (you)</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{isOnline ? 'Online' : 'Offline'}</p>
+                  </div>
+                  {role !== 'member' && (
+                    <Badge variant={role === 'owner' ? 'default' : 'secondary'} className="shrink-0">
+                      {ROOM_ROLE_LABELS[role]}
+                    </Badge>
+                  )}
+                  {hasActions && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 shrink-0"
+                          disabled={busyMemberId === member.id}
+                          aria-label={`Manage ${member.username}`}
+                        >
+                          {busyMemberId === member.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <MoreHorizontal className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {canPromote && (
+                          <DropdownMenuItem onClick={() => void handleRoleChange(member, 'admin')}>
+                            <Shield className="mr-2 h-4 w-4" />
+                            Make admin
+                          </DropdownMenuItem>
+                        )}
+                        {canDemote && (
+                          <DropdownMenuItem onClick={() => void handleRoleChange(member, 'member')}>
+                            <ShieldOff className="mr-2 h-4 w-4" />
+                            Remove admin role
+                          </DropdownMenuItem>
+                        )}
+                        {canRemove && (canPromote || canDemote) && <DropdownMenuSeparator />}
+                        {canRemove && (
+                          <DropdownMenuItem
+                            className="text-destructive focus:text-destructive"
+                            onClick={() => setPendingRemoval(member)}
+                          >
+                            <UserMinus className="mr-2 h-4 w-4" />
+                            Remove from room
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <AlertDialog open={pendingRemoval !== null} onOpenChange={(open) => !open && setPendingRemoval(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {pendingRemoval?.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will no longer see new messages in {room.name}. They can be added again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingRemoval) void handleRemove(pendingRemoval);
+                setPendingRemoval(null);
+              }}
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </aside>
+  );
+}
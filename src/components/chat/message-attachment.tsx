@@ -0,0 +1,111 @@
+'use client';
+
+import { memo, useState } from 'react';
+import Image from 'next/image';
+import { Download, FileText } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { MessageAttachment as Attachment } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// Thumbnails fit in this box; the stored dimensions keep the aspect ratio so
+// the list doesn't jump when the image loads
+const THUMBNAIL_MAX = 280;
+
+const thumbnailSize = ({ width, height }: Attachment) => {
+  if (!width || !height) return { width: THUMBNAIL_MAX, height: THUMBNAIL_MAX * 0.75 };
+  const scale = Math.min(1, THUMBNAIL_MAX / Math.max(width, height));
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+function ImageAttachment({ attachment }: { attachment: Attachment }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const size = thumbnailSize(attachment);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="block overflow-hidden rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        aria-label={`Open ${attachment.name}`}
+      >
+        <Image
+          src={attachment.url}
+          alt={attachment.name}
+          width={size.width}
+          height={size.height}
+          unoptimized
+          className="object-cover"
+          style={{ width: size.width, height: size.height }}
+        />
+      </button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-[90vw] w-auto p-2 sm:max-w-[90vw]">
+          <DialogTitle className="sr-only">{attachment.name}</DialogTitle>
+          <Image
+            src={attachment.url}
+            alt={attachment.name}
+            width={attachment.width || 1200}
+            height={attachment.height || 900}
+            unoptimized
+            className="max-h-[80vh] w-auto max-w-full rounded object-contain"
+          />
+          <div className="flex items-center justify-between gap-4 px-1">
+            <p className="truncate text-sm text-muted-foreground">
+              {attachment.name} · {formatFileSize(attachment.size)}
+            </p>
+            <Button asChild variant="outline" size="sm">
+              <a href={attachment.url} download={attachment.name}>
+                <Download className="mr-1 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+function FileAttachment({ attachment, isOwn }: { attachment: Attachment; isOwn: boolean }) {
+  return (
+    <a
+      href={attachment.url}
+      download={attachment.name}
+      className={cn(
+        'flex w-64 max-w-full items-center gap-3 rounded-md border p-2 transition-colors',
+        isOwn
+          ? 'border-primary-foreground/30 hover:bg-primary-foreground/10'
+          : 'bg-background/60 hover:bg-background'
+      )}
+    >
+      <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-black/10 dark:bg-white/10">
+        <FileText className="h-5 w-5" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium" title={attachment.name}>{attachment.name}</p>
+        <p className={cn('text-xs', isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground')}>
+          {formatFileSize(attachment.size)}
+        </p>
+      </div>
+      <Download className="h-4 w-4 shrink-0 opacity-70" aria-label="Download" />
+    </a>
+  );
+}
+
+export const MessageAttachment = memo(function MessageAttachment({
+  attachment,
+  isOwn,
+}: {
+  attachment: Attachment;
+  isOwn: boolean;
+}) {
+  return isImageAttachment(attachment.mimeType) ? (
+    <ImageAttachment attachment={attachment} />
+  ) : (
+    <FileAttachment attachment={attachment} isOwn={isOwn} />
+  );
+});
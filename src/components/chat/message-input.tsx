@@ -1,34 +1,148 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
+import Image from "next/image";
 import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
-import { Send, Loader2 } from "lucide-react";
+import {
+  Send,
+  Loader2,
+  Reply,
+  X,
+  Bold,
+  Italic,
+  Strikethrough,
+  Code,
+  SquareCode,
+  List,
+  ListOrdered,
+  Quote,
+  Eye,
+  EyeOff,
+  SquareSlash,
+  Paperclip,
+  FileText,
+  RotateCw,
+  Upload,
+} from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { MarkdownContent } from "@/components/chat/markdown-content";
 import { cn } from "@/lib/utils";
 import { useSocketContext } from "@/context/socket-context";
 import { useAuth } from '@/context/auth-context';
+import { useRooms } from "@/context/room-context";
+import { useSelectedRoom } from "@/context/selected-room-context";
+import { useToast } from "@/hooks/use-toast";
 import { useMessageHistory } from "@/hooks/use-message-history";
+import { useAttachmentUploads } from "@/hooks/use-attachment-uploads";
+import { TYPING_REFRESH_INTERVAL } from "@/lib/socket-protocol";
+import { Message, RoomMember } from "@/lib/types";
+import { collectMentions, findMentionQuery } from "@/lib/mentions";
+import {
+  SlashCommand,
+  findSlashCommand,
+  matchSlashCommands,
+  parseSlashCommand,
+} from "@/lib/slash-commands";
+import { TextEdit, prefixLines, toggleWrap } from "@/lib/markdown";
+import { ALLOWED_ATTACHMENT_TYPES, formatFileSize, isImageAttachment } from "@/lib/attachments";
+
+type FormatAction = "bold" | "italic" | "strike" | "code" | "codeBlock" | "bulletList" | "numberedList" | "quote";
+
+const FORMAT_BUTTONS: { action: FormatAction; label: string; icon: typeof Bold; shortcut?: string }[] = [
+  { action: "bold", label: "Bold", icon: Bold, shortcut: "Ctrl+B" },
+  { action: "italic", label: "Italic", icon: Italic, shortcut: "Ctrl+I" },
+  { action: "strike", label: "Strikethrough", icon: Strikethrough },
+  { action: "code", label: "Inline code", icon: Code, shortcut: "Ctrl+E" },
+  { action: "codeBlock", label: "Code block", icon: SquareCode },
+  { action: "bulletList", label: "Bulleted list", icon: List },
+  { action: "numberedList", label: "Numbered list", icon: ListOrdered },
+  { action: "quote", label: "Quote", icon: Quote },
+];
+
+const SHORTCUTS: Record<string, FormatAction> = { b: "bold", i: "italic", e: "code" };
+
+const MAX_MENTION_SUGGESTIONS = 6;
+
+const formatText = (value: string, start: number, end: number, action: FormatAction): TextEdit => {
+  switch (action) {
+    case "bold":
+      return toggleWrap(value, start, end, "**");
+    case "italic":
+      return toggleWrap(value, start, end, "*");
+    case "strike":
+      return toggleWrap(value, start, end, "~~");
+    case "code":
+      return toggleWrap(value, start, end, "`");
+    case "codeBlock":
+      return toggleWrap(value, start, end, "```\n", "\n```");
+    case "bulletList":
+      return prefixLines(value, start, end, () => "- ");
+    case "numberedList":
+      return prefixLines(value, start, end, (index) => `${index + 1}. `);
+    case "quote":
+      return prefixLines(value, start, end, () => "> ");
+  }
+};
 
 interface MessageInputProps {
   conversationId: string;
   lastMessage?: string;
+  // Up arrow in an empty input edits the last message we sent
+  onEditLastMessage?: () => void;
+  // Message being quote-replied to, shown in a banner above the input
+  replyTo?: Message | null;
+  onCancelReply?: () => void;
+  // Set when the input posts into a thread rather than the main timeline
+  threadId?: string;
+  placeholder?: string;
+  // Room members offered by the @mention autocomplete
+  members?: RoomMember[];
 }
 
 export function MessageInput({
   conversationId,
   lastMessage,
+  onEditLastMessage,
+  replyTo,
+  onCancelReply,
+  threadId,
+  placeholder,
+  members = [],
 }: MessageInputProps) {
   const { actions } = useSocketContext();
   const { user } = useAuth();
-  const { historyMessages } = useMessageHistory(conversationId);
+  const { findRoomById, refreshRooms } = useRooms();
+  const { setSelectedRoomId } = useSelectedRoom();
+  const { toast } = useToast();
+  const { messages: historyMessages } = useMessageHistory(conversationId);
   const [content, setContent] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const [smartReplies, setSmartReplies] = useState<string[]>([]);
   const [isLoadingReplies, setIsLoadingReplies] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const [commandNotice, setCommandNotice] = useState<{ title: string; content: string } | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
   const isTypingRef = useRef(false);
+  const lastTypingStartRef = useRef(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { uploads, isUploading, addFiles, removeUpload, retryUpload, takeAttachments } = useAttachmentUploads();
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // dragenter/dragleave fire for every child, so count them to know when we've left
+  const dragDepthRef = useRef(0);
+
+  // Starting a reply moves the focus to the input
+  useEffect(() => {
+    if (replyTo) textareaRef.current?.focus();
+  }, [replyTo]);
 
   // Format conversation history for the AI prompt
   const formattedConversationHistory = historyMessages
@@ -77,9 +191,12 @@ export function MessageInput({
   };
 
   const handleTyping = () => {
-    if (!isTypingRef.current) {
+    // Re-announce periodically so other clients don't expire the indicator
+    const now = Date.now();
+    if (!isTypingRef.current || now - lastTypingStartRef.current >= TYPING_REFRESH_INTERVAL) {
       actions.startTyping(conversationId);
       isTypingRef.current = true;
+      lastTypingStartRef.current = now;
     }
 
     if (typingTimeoutRef.current) {
@@ -92,35 +209,246 @@ export function MessageInput({
     }, 1000);
   };
 
+  // Members matching the `@query` at the caret; prefix matches first
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery) return [];
+    const query = mentionQuery.query.toLowerCase();
+    const candidates = members.filter(
+      (member) => member.id !== user?.id && member.username.toLowerCase().includes(query)
+    );
+    return [
+      ...candidates.filter((member) => member.username.toLowerCase().startsWith(query)),
+      ...candidates.filter((member) => !member.username.toLowerCase().startsWith(query)),
+    ].slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mentionQuery, members, user?.id]);
+
+  // Commands matching the name being typed right after a leading "/"
+  const commandSuggestions = useMemo(
+    () => (!suggestionsDismissed && /^\/[\w-]*$/.test(content) ? matchSlashCommands(content.slice(1)) : []),
+    [content, suggestionsDismissed]
+  );
+  const suggestionCount = commandSuggestions.length || mentionSuggestions.length;
+
+  // Usage hint once a known command is typed but its arguments aren't yet
+  const typedCommand = content.startsWith("/") ? parseSlashCommand(content) : null;
+  const typedCommandDefinition =
+    typedCommand && !typedCommand.args && commandSuggestions.length === 0
+      ? findSlashCommand(typedCommand.name)
+      : undefined;
+  const commandHint = typedCommandDefinition
+    ? [`/${typedCommandDefinition.name}`, typedCommandDefinition.argsHint, "—", typedCommandDefinition.description]
+        .filter(Boolean)
+        .join(" ")
+    : null;
+
+  const updateMentionQuery = (textarea: HTMLTextAreaElement) => {
+    const next =
+      textarea.selectionStart === textarea.selectionEnd
+        ? findMentionQuery(textarea.value, textarea.selectionStart)
+        : null;
+    if (next?.query !== mentionQuery?.query || next?.start !== mentionQuery?.start) {
+      setMentionQuery(next);
+      setActiveSuggestion(0);
+    }
+  };
+
+  const insertMention = (member: RoomMember) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) return;
+
+    const caret = textarea.selectionStart;
+    const inserted = `@${member.username} `;
+    const nextContent = content.slice(0, mentionQuery.start) + inserted + content.slice(caret);
+    const nextCaret = mentionQuery.start + inserted.length;
+    setContent(nextContent);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const insertCommand = (command: SlashCommand) => {
+    const nextContent = `/${command.name} `;
+    setContent(nextContent);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextContent.length, nextContent.length);
+    });
+  };
+
+  const pickSuggestion = (index: number) => {
+    if (commandSuggestions.length > 0) {
+      insertCommand(commandSuggestions[index] ?? commandSuggestions[0]);
+    } else {
+      insertMention(mentionSuggestions[index] ?? mentionSuggestions[0]);
+    }
+  };
+
+  const stopTypingIndicator = () => {
+    if (isTypingRef.current) {
+      actions.stopTyping(conversationId);
+      isTypingRef.current = false;
+    }
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    }
+  };
+
+  // Posts into this input's room or thread, quoting `replyTo` when set
+  const postMessage = (
+    text: string,
+    options: { messageType?: string; metadata?: Record<string, unknown> } = {}
+  ) => {
+    // Mentions travel as ids so they survive renames
+    const mentions = collectMentions(text, members);
+
+    actions.sendMessage({
+      roomId: conversationId,
+      content: text,
+      messageType: options.messageType ?? "text",
+      parentId: replyTo?.id,
+      threadId,
+      metadata: mentions.length > 0 ? { ...options.metadata, mentions } : options.metadata,
+    });
+    onCancelReply?.();
+  };
+
+  const runSlashCommand = async (text: string) => {
+    const parsed = parseSlashCommand(text);
+    const command = parsed ? findSlashCommand(parsed.name) : undefined;
+    if (!parsed || !command) {
+      setCommandError(`Unknown command ${text.split(/\s/)[0]}. Start with // to send it as a message.`);
+      return;
+    }
+    if (!user) return;
+
+    setIsSending(true);
+    setCommandError(null);
+    try {
+      const outcome = await command.execute({
+        args: parsed.args,
+        roomId: conversationId,
+        threadId,
+        currentUser: user,
+        room: findRoomById(conversationId),
+        members,
+        messages: historyMessages,
+        sendMessage: postMessage,
+        leaveSocketRoom: actions.leaveRoom,
+        refreshRooms,
+        selectRoom: setSelectedRoomId,
+      });
+
+      // Errors keep the command in the input so it can be corrected
+      if (outcome?.type === "error") {
+        setCommandError(outcome.message);
+        return;
+      }
+
+      setContent("");
+      stopTypingIndicator();
+      if (outcome?.type === "notice") {
+        setCommandNotice({ title: outcome.title, content: outcome.content });
+      } else if (outcome?.type === "success") {
+        toast({ title: outcome.message });
+      }
+    } catch (error) {
+      console.error(`Failed to run /${command.name}:`, error);
+      setCommandError(`/${command.name} failed. Please try again.`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const attachFiles = (files: Iterable<File>) => {
+    const errors = addFiles(files);
+    if (errors.length > 0) {
+      toast({
+        variant: "destructive",
+        title: errors.length === 1 ? "File not attached" : `${errors.length} files not attached`,
+        description: errors.join("\n"),
+      });
+    }
+    textareaRef.current?.focus();
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) attachFiles(e.target.files);
+    // Reset so picking the same file again still fires a change
+    e.target.value = "";
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    if (e.clipboardData.files.length === 0) return;
+    e.preventDefault();
+    attachFiles(e.clipboardData.files);
+  };
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current += 1;
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFiles(false);
+    attachFiles(e.dataTransfer.files);
+  };
+
+  // Each attachment goes out as its own message; typed text becomes the
+  // caption of the first one
+  const sendAttachments = (caption: string) => {
+    takeAttachments().forEach((attachment, index) => {
+      postMessage(index === 0 && caption ? caption : attachment.name, {
+        messageType: isImageAttachment(attachment.mimeType) ? "image" : "file",
+        metadata: { attachment },
+      });
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!content.trim() || isSending) return;
+    const trimmed = content.trim();
+    const hasAttachments = uploads.some((upload) => upload.status === "uploaded");
+    if ((!trimmed && !hasAttachments) || isSending || isUploading) return;
+
+    // "/name args" runs a command; "//text" sends text starting with a slash
+    if (trimmed.startsWith("/") && !trimmed.startsWith("//")) {
+      await runSlashCommand(trimmed);
+      return;
+    }
 
     const originalContent = content;
     setContent(""); // Clear immediately for better UX
     setSmartReplies([]); // Clear smart replies
+    setMentionQuery(null);
 
     try {
       setIsSending(true);
-
-      // Stop typing indicator
-      if (isTypingRef.current) {
-        actions.stopTyping(conversationId);
-        isTypingRef.current = false;
-      }
-
-      // Clear typing timeout
-      if (typingTimeoutRef.current) {
-        clearTimeout(typingTimeoutRef.current);
-      }
+      stopTypingIndicator();
 
       // Send message via socket
-      actions.sendMessage({
-        roomId: conversationId,
-        content: originalContent.trim(),
-        messageType: "text",
-      });
+      const text = trimmed.startsWith("//") ? trimmed.slice(1) : trimmed;
+      if (hasAttachments) {
+        sendAttachments(text);
+      } else {
+        postMessage(text);
+      }
     } catch (error) {
       console.error("Failed to send message:", error);
       // Restore content on error
@@ -130,24 +458,337 @@ export function MessageInput({
     }
   };
 
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const edit = formatText(content, textarea.selectionStart, textarea.selectionEnd, action);
+    setContent(edit.value);
+    handleTyping();
+    // Restore the selection once React has written the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
+    if (suggestionCount > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveSuggestion((index) => (index + step + suggestionCount) % suggestionCount);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        pickSuggestion(activeSuggestion);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMentionQuery(null);
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+
+    const shortcut = SHORTCUTS[e.key.toLowerCase()];
+    if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && shortcut) {
+      e.preventDefault();
+      applyFormat(shortcut);
+    } else if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSubmit(e);
+    } else if (e.key === "Escape" && replyTo && onCancelReply) {
+      e.preventDefault();
+      onCancelReply();
+    } else if (e.key === "ArrowUp" && !content && onEditLastMessage) {
+      e.preventDefault();
+      onEditLastMessage();
     }
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setContent(e.target.value);
+    setCommandError(null);
+    setSuggestionsDismissed(false);
+    setActiveSuggestion(0);
+    updateMentionQuery(e.target);
     handleTyping();
   };
 
   const hasContent = content.trim().length > 0;
+  const canSend = (hasContent || uploads.some((upload) => upload.status === "uploaded")) && !isUploading;
   const showSmartReplies = smartReplies.length > 0 && !hasContent && !isLoadingReplies;
   const showLoadingIndicator = isLoadingReplies && !hasContent;
 
   return (
-    <div className="relative">
+    <div
+      className="relative"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => isFileDrag(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isDraggingFiles && (
+        <div className="pointer-events-none absolute inset-0 z-40 flex items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary bg-background/90 text-sm font-medium text-primary">
+          <Upload className="h-4 w-4" />
+          Drop files to attach
+        </div>
+      )}
+
+      {/* Slash command autocomplete */}
+      {commandSuggestions.length > 0 && (
+        <div
+          role="listbox"
+          aria-label="Commands"
+          className="absolute bottom-full left-2 z-30 mb-1 w-80 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md animate-fade-in"
+        >
+          {commandSuggestions.map((command, index) => (
+            <button
+              key={command.name}
+              type="button"
+              role="option"
+              aria-selected={index === activeSuggestion}
+              className={cn(
+                "flex w-full flex-col rounded-sm px-2 py-1.5 text-left",
+                index === activeSuggestion ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+              )}
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveSuggestion(index)}
+              onClick={() => insertCommand(command)}
+            >
+              <span className="text-sm">
+                <span className="font-medium">/{command.name}</span>
+                {command.argsHint && (
+                  <span className="ml-2 text-xs text-muted-foreground">{command.argsHint}</span>
+                )}
+              </span>
+              <span className="text-xs text-muted-foreground">{command.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* @mention autocomplete */}
+      {mentionSuggestions.length > 0 && (
+        <div
+          role="listbox"
+          aria-label="Mention a member"
+          className="absolute bottom-full left-2 z-30 mb-1 w-64 overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md animate-fade-in"
+        >
+          {mentionSuggestions.map((member, index) => (
+            <button
+              key={member.id}
+              type="button"
+              role="option"
+              aria-selected={index === activeSuggestion}
+              className={cn(
+                "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                index === activeSuggestion ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+              )}
+              // Keep the textarea focused while picking
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveSuggestion(index)}
+              onClick={() => insertMention(member)}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarFallback className="text-[10px]">
+                  {member.username.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="truncate">{member.username}</span>
+              {member.isOnline && <span className="ml-auto h-2 w-2 shrink-0 rounded-full bg-green-500" aria-label="Online" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Output of commands like /summarize, only visible to this user */}
+      {commandNotice && (
+        <div className="mx-1 mb-1 max-h-60 overflow-y-auto rounded-md border bg-muted/40 px-3 py-2 animate-fade-in">
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <p className="text-xs font-semibold text-muted-foreground">
+              {commandNotice.title} · only visible to you
+            </p>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={() => setCommandNotice(null)}
+              aria-label="Dismiss"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <MarkdownContent content={commandNotice.content} className="text-sm leading-relaxed" />
+        </div>
+      )}
+
+      {replyTo && (
+        <div className="flex items-center gap-2 border-l-2 border-primary bg-muted/50 px-3 py-2 mb-1 rounded-sm animate-fade-in">
+          <Reply className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <div className="min-w-0 flex-1 text-xs">
+            <p className="font-medium">Replying to {replyTo.userId === user?.id ? "yourself" : replyTo.username}</p>
+            <p className="truncate text-muted-foreground">{replyTo.content}</p>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0"
+            onClick={onCancelReply}
+            aria-label="Cancel reply"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
+      {(commandError || commandHint) && (
+        <p
+          className={cn(
+            "flex items-center gap-1.5 px-2 pb-1 text-xs",
+            commandError ? "text-destructive" : "text-muted-foreground"
+          )}
+          role={commandError ? "alert" : undefined}
+        >
+          <SquareSlash className="h-3.5 w-3.5 shrink-0" />
+          {commandError ?? commandHint}
+        </p>
+      )}
+
+      {/* Attachments waiting to be sent */}
+      {uploads.length > 0 && (
+        <ul className="flex gap-2 overflow-x-auto px-1 pb-2" aria-label="Attachments">
+          {uploads.map((upload) => (
+            <li
+              key={upload.id}
+              className={cn(
+                "relative flex w-52 shrink-0 items-center gap-2 rounded-md border bg-muted/40 p-2",
+                upload.status === "failed" && "border-destructive/50"
+              )}
+            >
+              {upload.previewUrl ? (
+                <Image
+                  src={upload.previewUrl}
+                  alt=""
+                  width={40}
+                  height={40}
+                  unoptimized
+                  className="h-10 w-10 shrink-0 rounded object-cover"
+                />
+              ) : (
+                <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded bg-background">
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-xs font-medium" title={upload.file.name}>{upload.file.name}</p>
+                {upload.status === "uploading" ? (
+                  <Progress value={upload.progress} className="mt-1 h-1.5" aria-label={`Uploading ${upload.file.name}`} />
+                ) : upload.status === "failed" ? (
+                  <p className="truncate text-xs text-destructive" title={upload.error}>{upload.error || "Upload failed"}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{formatFileSize(upload.file.size)}</p>
+                )}
+              </div>
+              {upload.status === "failed" && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => retryUpload(upload.id)}
+                  aria-label={`Retry ${upload.file.name}`}
+                >
+                  <RotateCw className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => removeUpload(upload.id)}
+                aria-label={upload.status === "uploading" ? `Cancel upload of ${upload.file.name}` : `Remove ${upload.file.name}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Formatting toolbar */}
+      <div className="flex items-center gap-0.5 px-1 pb-1">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-muted-foreground hover:text-foreground"
+              onClick={() => fileInputRef.current?.click()}
+              aria-label="Attach files"
+            >
+              <Paperclip className="h-3.5 w-3.5" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent>Attach files</TooltipContent>
+        </Tooltip>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+          className="hidden"
+          onChange={handleFileInputChange}
+        />
+        {FORMAT_BUTTONS.map(({ action, label, icon: Icon, shortcut }) => (
+          <Tooltip key={action}>
+            <TooltipTrigger asChild>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                // Keep the textarea selection while clicking
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => applyFormat(action)}
+                aria-label={label}
+              >
+                <Icon className="h-3.5 w-3.5" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>{shortcut ? `${label} (${shortcut})` : label}</TooltipContent>
+          </Tooltip>
+        ))}
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn("ml-auto h-7 px-2 text-xs text-muted-foreground", showPreview && "text-foreground bg-muted")}
+          onClick={() => setShowPreview((prev) => !prev)}
+          aria-pressed={showPreview}
+        >
+          {showPreview ? <EyeOff className="h-3.5 w-3.5 mr-1" /> : <Eye className="h-3.5 w-3.5 mr-1" />}
+          Preview
+        </Button>
+      </div>
+
+      {showPreview && (
+        <div className="mx-1 mb-1 max-h-48 overflow-y-auto rounded-md border bg-muted/30 px-3 py-2 animate-fade-in">
+          {hasContent ? (
+            <MarkdownContent content={content} className="text-sm leading-relaxed" />
+          ) : (
+            <p className="text-xs italic text-muted-foreground">Nothing to preview</p>
+          )}
+        </div>
+      )}
+
       {/* Fixed height container to prevent layout shifts */}
       <div className="h-16">
         <div
@@ -163,9 +804,14 @@ export function MessageInput({
                 value={content}
                 onChange={handleChange}
                 onKeyDown={handleKeyDown}
+                onPaste={handlePaste}
+                onSelect={(e) => updateMentionQuery(e.currentTarget)}
                 onFocus={() => setIsFocused(true)}
-                onBlur={() => setIsFocused(false)}
-                placeholder={`Message as ${user?.username || "User"}...`}
+                onBlur={() => {
+                  setIsFocused(false);
+                  setMentionQuery(null);
+                }}
+                placeholder={placeholder ?? `Message as ${user?.username || "User"}...`}
                 className="min-h-[44px] max-h-32 resize-none border-0 p-0 focus-visible:ring-0 focus-visible:ring-offset-0"
                 rows={1}
               />
@@ -173,7 +819,7 @@ export function MessageInput({
             <Button
               type="submit"
               size="sm"
-              disabled={!hasContent || isSending}
+              disabled={!canSend || isSending}
               className={cn(
                 "shrink-0 animate-ripple hover:animate-pulse transition-transform duration-200",
                 isSending && "rotate-180"
@@ -1,18 +1,179 @@
 'use client';
 
-import { useMemo, useCallback, useRef, useEffect } from 'react';
+import { useMemo, useCallback, useRef, useEffect, useLayoutEffect, useState } from 'react';
 import { Message } from '@/lib/types';
+import type { ReadReceipt } from '@/hooks/use-socket';
+import { ReactionChips, ReactionPicker } from './message-reactions';
+import { MarkdownContent } from './markdown-content';
+import { MessageAttachment } from './message-attachment';
+import { getMessageAttachment, isImageAttachment } from '@/lib/attachments';
+import { useVirtualList } from '@/hooks/use-virtual-list';
+import { getMessageMentions, mentionsUser } from '@/lib/mentions';
 import { cn } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
-import { Loader2, Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Check, CheckCheck, Clock, AlertCircle, CloudOff, RotateCw, Pencil, Trash2, MoreHorizontal, Ban, Reply, MessagesSquare, ArrowDown, Link2 } from 'lucide-react';
 
 interface MessageListProps {
   messages: Message[];
   currentUserId: string;
   isLoading?: boolean;
   onLoadMore?: () => void;
-  shouldAutoScroll?: boolean;
+  onRetryMessage?: (tempId: string, content?: string) => void;
+  onDiscardMessage?: (tempId: string) => void;
+  // Called for other people's messages once they have been on screen
+  onMessageSeen?: (message: Message) => void;
+  // messageId → members whose read marker sits on that message
+  seenBy?: Record<string, ReadReceipt[]>;
+  isGroupRoom?: boolean;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onDeleteMessage?: (messageId: string) => void;
+  // Controlled so MessageInput can start editing the last message (Up arrow)
+  editingMessageId?: string | null;
+  onEditingMessageChange?: (messageId: string | null) => void;
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  // Quote-reply and thread actions; left out where they don't apply (inside a thread)
+  onReply?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+  // messageId → number of replies in the thread it started
+  replyCounts?: Record<string, number>;
+  // userId → current username of the room's members, for mention pills
+  memberNames?: Map<string, string>;
+  // The room's last-read marker as it was on entering; a "New messages"
+  // divider goes before the first message from someone else after it
+  unreadAfter?: string;
+  // Whether the newest message is in view, so the room is only marked read then
+  onAtEndChange?: (atEnd: boolean) => void;
+  // Message to scroll to and highlight once it is loaded (message links)
+  focusMessageId?: string;
+  onCopyLink?: (message: Message) => void;
+}
+
+const MAX_SEEN_AVATARS = 5;
+const HIGHLIGHT_DURATION = 2000;
+
+// Starting heights for rows that haven't been measured yet
+const ESTIMATED_DATE_HEIGHT = 56;
+const ESTIMATED_MESSAGE_HEIGHT = 88;
+const ESTIMATED_IMAGE_HEIGHT = 300;
+const ESTIMATED_DIVIDER_HEIGHT = 36;
+
+const UNREAD_DIVIDER_KEY = 'unread-divider';
+
+// The list is flattened into rows so it can be windowed; date separators and
+// the unread divider are rows of their own
+type ListRow =
+  | { type: 'date'; key: string; date: string }
+  | { type: 'unread'; key: string }
+  | { type: 'message'; key: string; message: Message; showAvatar: boolean };
+
+// Optimistic messages keep their tempId once confirmed, so rows don't remount
+const messageKey = (message: Message) => message.tempId || message.id;
+
+const buildRows = (messages: Message[], currentUserId: string, unreadAfter?: string): ListRow[] => {
+  const rows: ListRow[] = [];
+  const unreadFrom = unreadAfter ? new Date(unreadAfter).getTime() : undefined;
+  let hasDivider = false;
+  let previous: Message | undefined;
+
+  messages.forEach((message) => {
+    const date = new Date(message.createdAt).toDateString();
+    const startsDay = !previous || new Date(previous.createdAt).toDateString() !== date;
+    if (startsDay) rows.push({ type: 'date', key: `date:${date}`, date });
+
+    const startsUnread =
+      !hasDivider &&
+      unreadFrom !== undefined &&
+      message.userId !== currentUserId &&
+      new Date(message.createdAt).getTime() > unreadFrom;
+    if (startsUnread) {
+      rows.push({ type: 'unread', key: UNREAD_DIVIDER_KEY });
+      hasDivider = true;
+    }
+
+    rows.push({
+      type: 'message',
+      key: messageKey(message),
+      message,
+      // Avatars and names head each run of messages from the same person
+      showAvatar:
+        message.userId !== currentUserId &&
+        (startsDay || startsUnread || previous?.userId !== message.userId),
+    });
+    previous = message;
+  });
+
+  return rows;
+};
+
+// Only messages the server has stored can be edited or deleted
+export const isEditableMessage = (message: Message, currentUserId: string) =>
+  message.userId === currentUserId &&
+  !message.deletedAt &&
+  message.id !== message.tempId &&
+  (message.status === undefined || message.status === 'sent' || message.status === 'confirmed');
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+interface InlineEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  submitLabel: string;
+}
+
+function InlineEditor({ value, onChange, onSubmit, onCancel, submitLabel }: InlineEditorProps) {
+  return (
+    <div className="flex flex-col gap-2 min-w-[16rem]">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            onSubmit();
+          } else if (e.key === 'Escape') {
+            onCancel();
+          }
+        }}
+        className="min-h-[60px] text-sm bg-background text-foreground"
+        autoFocus
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" className="h-7 px-2 text-xs" onClick={onSubmit} disabled={!value.trim()}>
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
 }
 
 export function MessageList({ 
@@ -20,11 +181,161 @@ export function MessageList({
   currentUserId, 
   isLoading = false,
   onLoadMore,
-  shouldAutoScroll = false
+  onRetryMessage,
+  onDiscardMessage,
+  onMessageSeen,
+  seenBy,
+  isGroupRoom = false,
+  onEditMessage,
+  onDeleteMessage,
+  editingMessageId = null,
+  onEditingMessageChange,
+  onToggleReaction,
+  onReply,
+  onOpenThread,
+  replyCounts,
+  memberNames,
+  unreadAfter,
+  onAtEndChange,
+  focusMessageId,
+  onCopyLink,
 }: MessageListProps) {
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [editingTempId, setEditingTempId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [messageDraft, setMessageDraft] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimerRef = useRef<NodeJS.Timeout>();
+
+  // Names for the who-reacted tooltips, taken from the authors in this room
+  const usernames = useMemo(
+    () => new Map(messages.map((m) => [m.userId, m.username])),
+    [messages]
+  );
+
+  const messagesById = useMemo(
+    () => new Map(messages.map((m) => [m.id, m])),
+    [messages]
+  );
+
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  const rows = useMemo(
+    () => buildRows(messages, currentUserId, unreadAfter),
+    [messages, currentUserId, unreadAfter]
+  );
+
+  const getRowKey = useCallback((index: number) => rows[index].key, [rows]);
+
+  const estimateRowSize = useCallback((index: number) => {
+    const row = rows[index];
+    if (row.type === 'date') return ESTIMATED_DATE_HEIGHT;
+    if (row.type === 'unread') return ESTIMATED_DIVIDER_HEIGHT;
+    const attachment = getMessageAttachment(row.message);
+    return attachment && isImageAttachment(attachment.mimeType) ? ESTIMATED_IMAGE_HEIGHT : ESTIMATED_MESSAGE_HEIGHT;
+  }, [rows]);
+
+  const { items: virtualRows, totalSize, measureElement, isAtEnd, scrollToKey, scrollToEnd } = useVirtualList({
+    count: rows.length,
+    getKey: getRowKey,
+    estimateSize: estimateRowSize,
+    scrollRef: containerRef,
+    listRef,
+  });
+
+  // Open at the unread divider when there is one; the list starts at the end otherwise
+  const didPlaceInitialScrollRef = useRef(false);
+  useLayoutEffect(() => {
+    if (didPlaceInitialScrollRef.current || rows.length === 0) return;
+    didPlaceInitialScrollRef.current = true;
+    if (rows.some((row) => row.type === 'unread')) scrollToKey(UNREAD_DIVIDER_KEY, 'start');
+  }, [rows, scrollToKey]);
+
+  // Messages from others that arrived while scrolled up, for the jump button.
+  // Sending one of our own takes us down to it.
+  const [unseenCount, setUnseenCount] = useState(0);
+  const lastMessageKeyRef = useRef<string>();
+  useEffect(() => {
+    const previousKey = lastMessageKeyRef.current;
+    const lastMessage = messages[messages.length - 1];
+    lastMessageKeyRef.current = lastMessage && messageKey(lastMessage);
+    if (!previousKey || !lastMessage || messageKey(lastMessage) === previousKey) return;
+
+    const previousIndex = messages.findIndex((m) => messageKey(m) === previousKey);
+    if (previousIndex === -1) return;
+
+    const arrived = messages.slice(previousIndex + 1);
+    if (arrived.some((m) => m.userId === currentUserId && m.id === m.tempId)) {
+      scrollToEnd('smooth');
+    } else if (!isAtEnd) {
+      setUnseenCount((count) => count + arrived.filter((m) => m.userId !== currentUserId).length);
+    }
+  }, [messages, currentUserId, isAtEnd, scrollToEnd]);
+
+  useEffect(() => {
+    if (isAtEnd) setUnseenCount(0);
+    onAtEndChange?.(isAtEnd);
+  }, [isAtEnd, onAtEndChange]);
+
+  // Load the current text whenever a message enters edit mode (read through a
+  // ref so new incoming messages don't reset the draft)
+  useEffect(() => {
+    if (!editingMessageId) return;
+    const message = messagesRef.current.find((m) => m.id === editingMessageId);
+    if (!message) return;
+    setMessageDraft(message.content);
+    scrollToKey(messageKey(message), 'nearest');
+  }, [editingMessageId, scrollToKey]);
+
+  // Scroll a quoted message into view and flash it
+  const jumpToMessage = useCallback((messageId: string) => {
+    const message = messagesById.get(messageId);
+    if (!message || !scrollToKey(messageKey(message), 'center')) return;
+    setHighlightedMessageId(messageId);
+    clearTimeout(highlightTimerRef.current);
+    highlightTimerRef.current = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+  }, [messagesById, scrollToKey]);
+
+  useEffect(() => () => clearTimeout(highlightTimerRef.current), []);
+
+  const focusedMessageIdRef = useRef<string>();
+  useEffect(() => {
+    if (!focusMessageId || focusedMessageIdRef.current === focusMessageId || !messagesById.has(focusMessageId)) return;
+    focusedMessageIdRef.current = focusMessageId;
+    jumpToMessage(focusMessageId);
+  }, [focusMessageId, messagesById, jumpToMessage]);
+
+  const stopEditingMessage = useCallback(() => {
+    onEditingMessageChange?.(null);
+    setMessageDraft('');
+  }, [onEditingMessageChange]);
+
+  const submitMessageEdit = useCallback(() => {
+    if (!editingMessageId || !messageDraft.trim()) return;
+    onEditMessage?.(editingMessageId, messageDraft);
+    stopEditingMessage();
+  }, [editingMessageId, messageDraft, onEditMessage, stopEditingMessage]);
+
+  const startEditing = useCallback((message: Message) => {
+    if (!message.tempId) return;
+    setEditingTempId(message.tempId);
+    setEditDraft(message.content);
+  }, []);
+
+  const cancelEditing = useCallback(() => {
+    setEditingTempId(null);
+    setEditDraft('');
+  }, []);
+
+  const submitEdit = useCallback(() => {
+    if (!editingTempId || !editDraft.trim()) return;
+    onRetryMessage?.(editingTempId, editDraft);
+    cancelEditing();
+  }, [editingTempId, editDraft, onRetryMessage, cancelEditing]);
 
   const getInitials = useCallback((name: string) => {
     return name
@@ -48,6 +359,8 @@ export function MessageList({
     }
     
     switch (message.status) {
+      case 'queued':
+        return <CloudOff className="h-3 w-3 text-muted-foreground" aria-label="Queued until reconnected" />;
       case 'sending':
         return <Clock className="h-3 w-3 text-muted-foreground animate-spin-slow" />;
       case 'sent':
@@ -61,33 +374,35 @@ export function MessageList({
     }
   }, [currentUserId]);
 
-  // Group messages by date
-  const groupedMessages = useMemo(() => {
-    const groups: { date: string; messages: Message[] }[] = [];
-    
-    messages.forEach((message) => {
-      const messageDate = new Date(message.createdAt).toDateString();
-      const lastGroup = groups[groups.length - 1];
-      
-      if (lastGroup && lastGroup.date === messageDate) {
-        lastGroup.messages.push(message);
-      } else {
-        groups.push({
-          date: messageDate,
-          messages: [message]
+  // Report other people's messages as seen once they are mostly on screen.
+  // Rows mount and unmount while scrolling, so this re-observes whenever the
+  // rendered rows change.
+  const firstRenderedKey = virtualRows[0]?.key;
+  const lastRenderedKey = virtualRows[virtualRows.length - 1]?.key;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!onMessageSeen || !container) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (document.visibilityState !== 'visible') return;
+        entries.forEach((entry) => {
+          const message = messagesById.get((entry.target as HTMLElement).dataset.messageId ?? '');
+          if (entry.isIntersecting && message) {
+            onMessageSeen(message);
+            observer.unobserve(entry.target);
+          }
         });
-      }
-    });
-    
-    return groups;
-  }, [messages]);
+      },
+      { root: container, threshold: 0.6 }
+    );
 
-  // Auto-scroll to bottom only when shouldAutoScroll is true
-  useEffect(() => {
-    if (shouldAutoScroll && messagesEndRef.current) {
-      messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [shouldAutoScroll]);
+    container
+      .querySelectorAll<HTMLElement>('[data-message-id][data-own="false"]')
+      .forEach((element) => observer.observe(element));
+
+    return () => observer.disconnect();
+  }, [messagesById, onMessageSeen, firstRenderedKey, lastRenderedKey]);
 
   // Intersection Observer for load more
   useEffect(() => {
@@ -113,146 +428,482 @@ export function MessageList({
     return () => clearTimeout(timer);
   }, [onLoadMore, isLoading]);
 
-  if (messages.length === 0 && !isLoading) {
+  const renderMessage = (message: Message, showAvatar: boolean) => {
+    const isOwn = message.userId === currentUserId;
+    const isFailed = isOwn && message.status === 'failed';
+    const isEditing = isFailed && editingTempId === message.tempId;
+    const isDeleted = Boolean(message.deletedAt);
+    const isEditingMessage = !isDeleted && editingMessageId === message.id;
+    const canModify =
+      Boolean(onEditMessage || onDeleteMessage) &&
+      isEditableMessage(message, currentUserId) &&
+      !isEditingMessage;
+    const isStored = !isDeleted && message.id !== message.tempId;
+    const canReact = Boolean(onToggleReaction) && isStored;
+    const quoted = message.parentId ? messagesById.get(message.parentId) : undefined;
+    const attachment = isDeleted ? undefined : getMessageAttachment(message);
+    // Attachments sent without a caption carry their file name as content
+    const hasCaption = !attachment || attachment.name !== message.content;
+    const replyCount = replyCounts?.[message.id] ?? 0;
+    const mentionsMe = !isOwn && !isDeleted && mentionsUser(message, currentUserId);
+    const readers = (seenBy?.[message.id] ?? []).filter((r) => r.userId !== message.userId);
+
     return (
-      <div className="flex items-center justify-center h-full text-muted-foreground">
-        <div className="text-center animate-fade-in">
-          <div className="text-6xl mb-4 opacity-50 animate-bounce-subtle">💬</div>
-          <p className="text-lg font-medium">No messages yet</p>
-          <p className="text-sm">Be the first to say hello!</p>
-        </div>
-      </div>
-    );
-  }
+      <div
+        data-message-id={message.id}
+        data-own={isOwn}
+        className={cn(
+          'flex gap-2 group transition-colors duration-200 rounded-lg',
+          isOwn ? 'justify-end' : 'justify-start',
+          highlightedMessageId === message.id && 'bg-primary/10 ring-1 ring-primary/30'
+        )}
+      >
+        {/* Avatar for others */}
+        {!isOwn && (
+          <div className="flex-shrink-0">
+            {showAvatar ? (
+              <Avatar className="h-8 w-8 transition-transform duration-200 hover:scale-105 hover:rotate-3">
+                <AvatarFallback className="text-xs bg-muted">
+                  {getInitials(message.username)}
+                </AvatarFallback>
+              </Avatar>
+            ) : (
+              <div className="w-8" />
+            )}
+          </div>
+        )}
 
-  return (
-    <div 
-      ref={containerRef}
-      className="h-full overflow-y-auto px-4 py-2 scroll-smooth"
-    >
-      {/* Load more trigger */}
-      {onLoadMore && (
-        <div ref={loadMoreRef} className="flex justify-center py-4">
-          {isLoading ? (
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span className="text-sm">Loading messages...</span>
+        {/* Message bubble */}
+        <div className={cn(
+          'flex flex-col max-w-[70%] transition-all duration-200',
+          isOwn ? 'items-end' : 'items-start'
+        )}>
+          {/* Username (for others, when showing avatar) */}
+          {!isOwn && showAvatar && (
+            <div className="text-xs font-medium text-muted-foreground mb-1 px-3">
+              {message.username}
             </div>
-          ) : (
-            <Button 
-              variant="ghost" 
-              size="sm" 
-              onClick={onLoadMore}
-              className="text-muted-foreground hover:text-foreground transition-colors duration-200"
-            >
-              Load more messages
-            </Button>
           )}
-        </div>
-      )}
 
-      {/* Messages */}
-      <div className="space-y-4">
-        {groupedMessages.map((group, groupIndex) => (
-          <div key={group.date} className="animate-fade-in-up" style={{ animationDelay: `${groupIndex * 50}ms` }}>
-            {/* Date separator */}
-            <div className="flex items-center justify-center py-3">
-              <div className="bg-muted/80 text-muted-foreground text-xs font-medium px-4 py-2 rounded-full border shadow-sm">
-                {new Date(group.date).toLocaleDateString(undefined, {
-                  weekday: 'short',
-                  month: 'short',
-                  day: 'numeric'
-                })}
+          {/* Message content, with the actions menu beside own messages */}
+          <div className={cn('flex items-center gap-1', isOwn && 'flex-row-reverse')}>
+            {isDeleted ? (
+              <div className="px-4 py-3 rounded-2xl border border-dashed text-muted-foreground max-w-sm">
+                <p className="flex items-center gap-2 text-sm italic">
+                  <Ban className="h-3.5 w-3.5" />
+                  This message was deleted
+                </p>
               </div>
-            </div>
-
-            {/* Messages for this date */}
-            <div className="space-y-2">
-              {group.messages.map((message, index) => {
-                const isOwn = message.userId === currentUserId;
-                const showAvatar = !isOwn && (
-                  index === 0 || 
-                  group.messages[index - 1]?.userId !== message.userId
-                );
-
-                return (
-                  <div
-                    key={message.id || message.tempId}
-                    className={cn(
-                      'flex gap-2 group animate-slide-in-up transition-all duration-200',
-                      isOwn ? 'justify-end' : 'justify-start'
-                    )}
-                    style={{ animationDelay: `${index * 50}ms` }}
-                  >
-                    {/* Avatar for others */}
-                    {!isOwn && (
-                      <div className="flex-shrink-0">
-                        {showAvatar ? (
-                          <Avatar className="h-8 w-8 transition-transform duration-200 hover:scale-105 hover:rotate-3">
-                            <AvatarFallback className="text-xs bg-muted">
-                              {getInitials(message.username)}
-                            </AvatarFallback>
-                          </Avatar>
-                        ) : (
-                          <div className="w-8" />
-                        )}
-                      </div>
-                    )}
-
-                    {/* Message bubble */}
-                    <div className={cn(
-                      'flex flex-col max-w-[70%] transition-all duration-200',
-                      isOwn ? 'items-end' : 'items-start'
-                    )}>
-                      {/* Username (for others, when showing avatar) */}
-                      {!isOwn && showAvatar && (
-                        <div className="text-xs font-medium text-muted-foreground mb-1 px-3">
-                          {message.username}
-                        </div>
-                      )}
-
-                      {/* Message content */}
-                      <div
+            ) : (
+              <div
+                className={cn(
+                  'px-4 py-3 rounded-2xl break-words transition-all duration-200 hover:shadow-lg ring-1 ring-primary/10 max-w-sm',
+                  isOwn
+                    ? 'bg-gradient-to-r from-primary to-primary/80 text-primary-foreground rounded-br-md ml-auto shadow-lg'
+                    : 'bg-gradient-to-r from-muted to-card text-card-foreground rounded-bl-md border shadow-sm',
+                  message.status === 'sending' && 'opacity-70 animate-pulse',
+                  message.status === 'queued' && 'opacity-60 border border-dashed border-primary-foreground/40',
+                  message.status === 'failed' && 'bg-destructive/10 border-destructive/20 text-destructive',
+                  mentionsMe && 'ring-2 ring-amber-400/70 from-amber-100/80 to-card dark:from-amber-500/20'
+                )}
+              >
+                {isEditing ? (
+                  <InlineEditor
+                    value={editDraft}
+                    onChange={setEditDraft}
+                    onSubmit={submitEdit}
+                    onCancel={cancelEditing}
+                    submitLabel="Resend"
+                  />
+                ) : isEditingMessage ? (
+                  <InlineEditor
+                    value={messageDraft}
+                    onChange={setMessageDraft}
+                    onSubmit={submitMessageEdit}
+                    onCancel={stopEditingMessage}
+                    submitLabel="Save"
+                  />
+                ) : (
+                  <>
+                    {message.parentId && (
+                      <button
+                        type="button"
+                        onClick={() => quoted && jumpToMessage(quoted.id)}
+                        disabled={!quoted}
                         className={cn(
-                          'px-4 py-3 rounded-2xl break-words transition-all duration-200 hover:shadow-lg ring-1 ring-primary/10 max-w-sm',
+                          'mb-2 block w-full max-w-full border-l-2 pl-2 text-left text-xs transition-opacity',
                           isOwn
-                            ? 'bg-gradient-to-r from-primary to-primary/80 text-primary-foreground rounded-br-md ml-auto shadow-lg'
-                            : 'bg-gradient-to-r from-muted to-card text-card-foreground rounded-bl-md border shadow-sm',
-                          message.status === 'sending' && 'opacity-70 animate-pulse',
-                          message.status === 'failed' && 'bg-destructive/10 border-destructive/20 text-destructive'
+                            ? 'border-primary-foreground/60 text-primary-foreground/80'
+                            : 'border-primary/60 text-muted-foreground',
+                          quoted && 'hover:opacity-80'
                         )}
                       >
-                        <p className="text-sm leading-relaxed font-medium">{message.content}</p>
-                      </div>
-
-                      {/* Timestamp and status */}
-                      <div className={cn(
-                        'flex items-center gap-1 px-1 mt-1 transition-all duration-200',
-                        isOwn ? 'flex-row-reverse' : 'flex-row'
-                      )}>
-                        <span className="text-xs text-muted-foreground">
-                          {new Date(message.createdAt).toLocaleTimeString([], {
-                            hour: '2-digit',
-                            minute: '2-digit'
-                          })}
-                        </span>
-                        {/* Status icon - only show if it exists */}
-                        {getMessageStatusIcon(message) && (
-                          <div className="flex-shrink-0">
-                            {getMessageStatusIcon(message)}
-                          </div>
+                        {quoted ? (
+                          <>
+                            <span className="block font-semibold">{quoted.username}</span>
+                            <span className="block truncate">
+                              {quoted.deletedAt ? 'Message deleted' : quoted.content}
+                            </span>
+                          </>
+                        ) : (
+                          <span className="italic">Original message isn&apos;t loaded</span>
                         )}
+                      </button>
+                    )}
+                    {attachment && (
+                      <div className={cn(hasCaption && 'mb-2')}>
+                        <MessageAttachment attachment={attachment} isOwn={isOwn} />
                       </div>
-                    </div>
-                  </div>
-                );
+                    )}
+                    {!hasCaption ? null : message.messageType === 'action' ? (
+                      // `/me` actions read as "<name> <action>"
+                      <p className="text-sm leading-relaxed italic">
+                        <span className="font-semibold not-italic">{message.username}</span>{' '}
+                        {message.content}
+                      </p>
+                    ) : (
+                      <MarkdownContent
+                        content={message.content}
+                        className="text-sm leading-relaxed font-medium"
+                        mentions={getMessageMentions(message)}
+                        currentUserId={currentUserId}
+                        memberNames={memberNames}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            {canReact && !isEditingMessage && (
+              <ReactionPicker
+                align={isOwn ? 'end' : 'start'}
+                onSelect={(emoji) => onToggleReaction?.(message.id, emoji)}
+              />
+            )}
+
+            {isStored && !isEditingMessage && onReply && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                aria-label="Reply"
+                onClick={() => onReply(message)}
+              >
+                <Reply className="h-4 w-4" />
+              </Button>
+            )}
+
+            {isStored && !isEditingMessage && onOpenThread && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                aria-label="Reply in thread"
+                onClick={() => onOpenThread(message)}
+              >
+                <MessagesSquare className="h-4 w-4" />
+              </Button>
+            )}
+
+            {isStored && !isEditingMessage && onCopyLink && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+                aria-label="Copy link to message"
+                onClick={() => onCopyLink(message)}
+              >
+                <Link2 className="h-4 w-4" />
+              </Button>
+            )}
+
+            {canModify && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+                    aria-label="Message actions"
+                  >
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align={isOwn ? 'end' : 'start'}>
+                  {onEditMessage && (
+                    <DropdownMenuItem onClick={() => onEditingMessageChange?.(message.id)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </DropdownMenuItem>
+                  )}
+                  {onDeleteMessage && (
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => setPendingDelete(message)}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+
+          {canReact && message.reactions && (
+            <ReactionChips
+              reactions={message.reactions}
+              currentUserId={currentUserId}
+              usernames={usernames}
+              onToggle={(emoji) => onToggleReaction?.(message.id, emoji)}
+              className={isOwn ? 'justify-end' : 'justify-start'}
+            />
+          )}
+
+          {replyCount > 0 && onOpenThread && (
+            <button
+              type="button"
+              onClick={() => onOpenThread(message)}
+              className="flex items-center gap-1 px-1 mt-1 text-xs font-medium text-primary hover:underline"
+            >
+              <MessagesSquare className="h-3 w-3" />
+              {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+            </button>
+          )}
+
+          {/* Recovery actions for failed messages */}
+          {isFailed && !isEditing && message.tempId && (
+            <div className="flex items-center gap-1 mt-1 animate-fade-in">
+              {onRetryMessage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => onRetryMessage(message.tempId!)}
+                >
+                  <RotateCw className="h-3 w-3 mr-1" />
+                  Retry
+                </Button>
+              )}
+              {onRetryMessage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-muted-foreground hover:text-foreground"
+                  onClick={() => startEditing(message)}
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Edit and resend
+                </Button>
+              )}
+              {onDiscardMessage && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-muted-foreground hover:text-destructive"
+                  onClick={() => onDiscardMessage(message.tempId!)}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Discard
+                </Button>
+              )}
+            </div>
+          )}
+
+          {/* Timestamp and status */}
+          <div className={cn(
+            'flex items-center gap-1 px-1 mt-1 transition-all duration-200',
+            isOwn ? 'flex-row-reverse' : 'flex-row'
+          )}>
+            <span className="text-xs text-muted-foreground">
+              {new Date(message.createdAt).toLocaleTimeString([], {
+                hour: '2-digit',
+                minute: '2-digit'
               })}
+            </span>
+            {message.editedAt && !isDeleted && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                    title={`Edited ${formatTimestamp(message.editedAt)}`}
+                  >
+                    (edited)
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align={isOwn ? 'end' : 'start'} className="w-72">
+                  <p className="text-xs font-semibold text-muted-foreground mb-2">Edit history</p>
+                  <ol className="space-y-2">
+                    {(message.editHistory ?? []).map((revision, revisionIndex) => (
+                      <li key={revisionIndex} className="text-sm">
+                        <p className="text-muted-foreground line-through break-words">{revision.content}</p>
+                        <p className="text-xs text-muted-foreground">
+                          replaced {formatTimestamp(revision.editedAt)}
+                        </p>
+                      </li>
+                    ))}
+                    <li className="text-sm">
+                      <p className="break-words">{message.content}</p>
+                      <p className="text-xs text-muted-foreground">current</p>
+                    </li>
+                  </ol>
+                </PopoverContent>
+              </Popover>
+            )}
+            {/* Status icon - only show if it exists */}
+            {getMessageStatusIcon(message) && (
+              <div className="flex-shrink-0">
+                {getMessageStatusIcon(message)}
+              </div>
+            )}
+          </div>
+
+          {/* Read receipts: avatars in groups, a plain "Seen" in direct chats */}
+          {readers.length > 0 && (
+            isGroupRoom ? (
+              <div
+                className={cn('flex items-center gap-1 px-1 mt-1', isOwn ? 'flex-row-reverse' : 'flex-row')}
+                title={`Seen by ${readers.map((r) => r.username).join(', ')}`}
+              >
+                <div className={cn('flex -space-x-1.5', isOwn && 'flex-row-reverse space-x-reverse')}>
+                  {readers.slice(0, MAX_SEEN_AVATARS).map((reader) => (
+                    <Avatar key={reader.userId} className="h-4 w-4 ring-1 ring-background">
+                      <AvatarFallback className="text-[8px] bg-muted">
+                        {getInitials(reader.username)}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                </div>
+                {readers.length > MAX_SEEN_AVATARS && (
+                  <span className="text-[10px] text-muted-foreground">
+                    +{readers.length - MAX_SEEN_AVATARS}
+                  </span>
+                )}
+              </div>
+            ) : (
+              isOwn && <span className="text-xs text-muted-foreground px-1 mt-0.5">Seen</span>
+            )
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="relative h-full">
+      <div
+        ref={containerRef}
+        className="relative h-full overflow-y-auto px-4 py-2"
+      >
+        {messages.length === 0 && !isLoading && (
+          <div className="flex items-center justify-center h-full text-muted-foreground">
+            <div className="text-center animate-fade-in">
+              <div className="text-6xl mb-4 opacity-50 animate-bounce-subtle">💬</div>
+              <p className="text-lg font-medium">No messages yet</p>
+              <p className="text-sm">Be the first to say hello!</p>
             </div>
           </div>
-        ))}
+        )}
+        {/* Load more trigger */}
+        {onLoadMore && (
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isLoading ? (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span className="text-sm">Loading messages...</span>
+              </div>
+            ) : (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                onClick={onLoadMore}
+                className="text-muted-foreground hover:text-foreground transition-colors duration-200"
+              >
+                Load more messages
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Messages, windowed: only rows near the viewport are in the DOM */}
+        <div ref={listRef} className="relative" style={{ height: totalSize }}>
+          {virtualRows.map((virtualRow) => {
+            const row = rows[virtualRow.index];
+            return (
+              <div
+                key={virtualRow.key}
+                ref={measureElement}
+                data-virtual-key={virtualRow.key}
+                className="absolute inset-x-0 top-0"
+                style={{ transform: `translateY(${virtualRow.start}px)` }}
+              >
+                {row.type === 'date' ? (
+                  <div className="flex items-center justify-center pt-4 pb-3">
+                    <div className="bg-muted/80 text-muted-foreground text-xs font-medium px-4 py-2 rounded-full border shadow-sm">
+                      {new Date(row.date).toLocaleDateString(undefined, {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric'
+                      })}
+                    </div>
+                  </div>
+                ) : row.type === 'unread' ? (
+                  <div className="flex items-center gap-3 py-2" role="separator" aria-label="New messages">
+                    <div className="h-px flex-1 bg-destructive/60" />
+                    <span className="text-xs font-semibold uppercase tracking-wide text-destructive">
+                      New messages
+                    </span>
+                    <div className="h-px flex-1 bg-destructive/60" />
+                  </div>
+                ) : (
+                  <div className="pb-2">{renderMessage(row.message, row.showAvatar)}</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete message?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The message will be removed for everyone in this conversation. This can&apos;t be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                onClick={() => {
+                  if (pendingDelete) onDeleteMessage?.(pendingDelete.id);
+                  setPendingDelete(null);
+                }}
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
 
-      <div ref={messagesEndRef} />
+      {/* Back to the newest message when reading further up */}
+      {!isAtEnd && rows.length > 0 && (
+        <div className="absolute bottom-4 left-1/2 z-10 -translate-x-1/2">
+          <Button
+            size="sm"
+            className="rounded-full shadow-lg animate-fade-in-up"
+            onClick={() => scrollToEnd('smooth')}
+          >
+            {unseenCount > 0
+              ? `${unseenCount} new ${unseenCount === 1 ? 'message' : 'messages'}`
+              : 'Jump to latest'}
+            <ArrowDown className="ml-1 h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
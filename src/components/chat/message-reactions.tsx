@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🎉', '🙏', '👀', '🔥', '✅', '👏', '🤔'];
+
+const describeReactors = (
+  userIds: string[],
+  currentUserId: string,
+  usernames: Map<string, string>
+) => {
+  const names = userIds.map((id) =>
+    id === currentUserId ? 'You' : usernames.get(id) ?? 'Someone'
+  );
+  if (names.length <= 3) {
+    return names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+  }
+  return `${names.slice(0, 3).join(', ')} and ${names.length - 3} more`;
+};
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  align?: 'start' | 'end';
+}
+
+export function ReactionPicker({ onSelect, align = 'start' }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          aria-label="Add reaction"
+        >
+          <SmilePlus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align={align} className="w-auto p-2">
+        <div className="grid grid-cols-6 gap-1">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              className="h-8 w-8 rounded-md text-lg hover:bg-muted transition-colors"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+interface ReactionChipsProps {
+  reactions: Record<string, string[]>;
+  currentUserId: string;
+  // userId → display name, for the who-reacted tooltips
+  usernames: Map<string, string>;
+  onToggle: (emoji: string) => void;
+  className?: string;
+}
+
+export function ReactionChips({ reactions, currentUserId, usernames, onToggle, className }: ReactionChipsProps) {
+  const entries = Object.entries(reactions).filter(([, userIds]) => userIds.length > 0);
+  if (entries.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1 mt-1', className)}>
+      {entries.map(([emoji, userIds]) => {
+        const hasReacted = userIds.includes(currentUserId);
+        return (
+          <Tooltip key={emoji}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onToggle(emoji)}
+                className={cn(
+                  'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+                  hasReacted
+                    ? 'border-primary/50 bg-primary/10 text-primary'
+                    : 'bg-muted/60 text-muted-foreground hover:bg-muted'
+                )}
+                aria-pressed={hasReacted}
+              >
+                <span>{emoji}</span>
+                <span className="tabular-nums font-medium">{userIds.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {describeReactors(userIds, currentUserId, usernames)} reacted with {emoji}
+            </TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { ReactNode, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/context/auth-context';
+import { useRooms } from '@/context/room-context';
+import { roomPath, useSelectedRoom } from '@/context/selected-room-context';
+import { useToast } from '@/hooks/use-toast';
+import { createDirectRoom, createRoom } from '@/lib/api';
+import { Room } from '@/lib/types';
+
+const MAX_ROOM_NAME = 50;
+const MAX_ROOM_DESCRIPTION = 200;
+
+const groupSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(MAX_ROOM_NAME, `Keep the name under ${MAX_ROOM_NAME} characters`),
+  description: z.string().trim().max(MAX_ROOM_DESCRIPTION, `Keep the description under ${MAX_ROOM_DESCRIPTION} characters`),
+  roomType: z.enum(['public', 'private']),
+  members: z.string(),
+});
+
+const directSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(1, 'Username is required')
+    .regex(/^@?\S+$/, 'Enter a single username'),
+});
+
+type GroupData = z.infer<typeof groupSchema>;
+type DirectData = z.infer<typeof directSchema>;
+
+type CreateResponse = Awaited<ReturnType<typeof createRoom>>;
+
+// "@ann, bob carol" -> ["ann", "bob", "carol"]
+const parseUsernames = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(/[\s,]+/)
+        .map((name) => name.replace(/^@/, ''))
+        .filter(Boolean)
+    )
+  );
+
+function GroupRoomForm({ onSubmit }: { onSubmit: (data: GroupData) => void }) {
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<GroupData>({
+    resolver: zodResolver(groupSchema),
+    defaultValues: { name: '', description: '', roomType: 'public', members: '' },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="room-name">Name</Label>
+        <Input id="room-name" placeholder="e.g. design-team" autoComplete="off" {...register('name')} />
+        {errors.name && <p className="text-xs text-red-500">{errors.name.message}</p>}
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="room-description">Description</Label>
+        <Textarea
+          id="room-description"
+          placeholder="What is this room about? (optional)"
+          rows={2}
+          {...register('description')}
+        />
+        {errors.description && <p className="text-xs text-red-500">{errors.description.message}</p>}
+      </div>
+      <div className="grid gap-2">
+        <Label>Visibility</Label>
+        <Controller
+          control={control}
+          name="roomType"
+          render={({ field }) => (
+            <RadioGroup value={field.value} onValueChange={field.onChange} className="grid gap-2">
+              <Label htmlFor="room-public" className="flex items-start gap-2 font-normal">
+                <RadioGroupItem value="public" id="room-public" className="mt-0.5" />
+                <span>
+                  Public
+                  <span className="block text-xs text-muted-foreground">Anyone can find and join it</span>
+                </span>
+              </Label>
+              <Label htmlFor="room-private" className="flex items-start gap-2 font-normal">
+                <RadioGroupItem value="private" id="room-private" className="mt-0.5" />
+                <span>
+                  Private
+                  <span className="block text-xs text-muted-foreground">Only people who are added can see it</span>
+                </span>
+              </Label>
+            </RadioGroup>
+          )}
+        />
+      </div>
+      <div className="grid gap-2">
+        <Label htmlFor="room-members">Members</Label>
+        <Input id="room-members" placeholder="@ann, @bob" autoComplete="off" {...register('members')} />
+        <p className="text-xs text-muted-foreground">Usernames, separated by commas or spaces. You can invite more later.</p>
+      </div>
+      <DialogFooter>
+        <Button type="submit">Create room</Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+function DirectMessageForm({ onSubmit }: { onSubmit: (data: DirectData) => void }) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<DirectData>({
+    resolver: zodResolver(directSchema),
+    defaultValues: { username: '' },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="grid gap-4">
+      <div className="grid gap-2">
+        <Label htmlFor="dm-username">Username</Label>
+        <Input id="dm-username" placeholder="@ann" autoComplete="off" {...register('username')} />
+        {errors.username && <p className="text-xs text-red-500">{errors.username.message}</p>}
+      </div>
+      <DialogFooter>
+        <Button type="submit">Start conversation</Button>
+      </DialogFooter>
+    </form>
+  );
+}
+
+// Creates group rooms and starts direct conversations. The room shows up in the
+// sidebar and opens straight away as a placeholder; once the server answers it
+// is swapped for the real room, or removed again if creating it failed.
+export function NewConversationDialog({ children }: { children: ReactNode }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { user } = useAuth();
+  const { addRoom, replaceRoom, removeRoom } = useRooms();
+  const { setSelectedRoomId } = useSelectedRoom();
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const startRoom = async (
+    details: Pick<Room, 'name' | 'description' | 'roomType'>,
+    create: () => Promise<CreateResponse>
+  ) => {
+    const now = new Date().toISOString();
+    const placeholder: Room = {
+      ...details,
+      id: `pending-${crypto.randomUUID()}`,
+      createdBy: user?.id ?? '',
+      members: user ? [user.id] : [],
+      createdAt: now,
+      updatedAt: now,
+      isPending: true,
+    };
+
+    addRoom(placeholder);
+    setSelectedRoomId(placeholder.id);
+    setIsOpen(false);
+
+    const response = await create();
+    // Only follow the room if the user is still looking at its placeholder
+    const isShowingPlaceholder = window.location.pathname === roomPath(placeholder.id);
+
+    if (response.success && response.room) {
+      replaceRoom(placeholder.id, response.room);
+      if (isShowingPlaceholder) router.replace(roomPath(response.room.id));
+    } else {
+      removeRoom(placeholder.id);
+      if (isShowingPlaceholder) router.replace('/chat');
+      toast({
+        title: details.roomType === 'direct' ? 'Could not start the conversation' : 'Could not create the room',
+        description: response.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleGroupSubmit = (data: GroupData) => {
+    const members = parseUsernames(data.members).filter((name) => name !== user?.username);
+    void startRoom(
+      { name: data.name, description: data.description, roomType: data.roomType },
+      () => createRoom({ ...data, members })
+    );
+  };
+
+  const handleDirectSubmit = (data: DirectData) => {
+    const username = data.username.replace(/^@/, '');
+    if (username === user?.username) {
+      toast({ title: "You can't start a conversation with yourself", variant: 'destructive' });
+      return;
+    }
+    void startRoom({ name: username, description: '', roomType: 'direct' }, () => createDirectRoom(username));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New conversation</DialogTitle>
+          <DialogDescription>Create a room for a group, or message someone directly.</DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="group">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="group">Group room</TabsTrigger>
+            <TabsTrigger value="direct">Direct message</TabsTrigger>
+          </TabsList>
+          <TabsContent value="group" className="pt-2">
+            <GroupRoomForm onSubmit={handleGroupSubmit} />
+          </TabsContent>
+          <TabsContent value="direct" className="pt-2">
+            <DirectMessageForm onSubmit={handleDirectSubmit} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
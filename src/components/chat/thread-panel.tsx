@@ -0,0 +1,106 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MessageInput } from '@/components/chat/message-input';
+import { MessageList } from '@/components/chat/message-list';
+import { useSocketContext } from '@/context/socket-context';
+import { useThread } from '@/hooks/use-thread';
+import { Message, RoomMember } from '@/lib/types';
+
+interface ThreadPanelProps {
+  roomId: string;
+  threadId: string;
+  currentUserId: string;
+  isGroupRoom?: boolean;
+  members?: RoomMember[];
+  memberNames?: Map<string, string>;
+  focusMessageId?: string;
+  onCopyLink?: (message: Message) => void;
+  onClose: () => void;
+}
+
+// Side panel with a thread's root message, its replies and an input posting
+// into the thread. Keyed by threadId in ChatView, so all local state starts
+// fresh when another thread is opened.
+export function ThreadPanel({
+  roomId,
+  threadId,
+  currentUserId,
+  isGroupRoom,
+  members,
+  memberNames,
+  focusMessageId,
+  onCopyLink,
+  onClose,
+}: ThreadPanelProps) {
+  const {
+    actions: { retryMessage, discardMessage, markMessageRead, editMessage, deleteMessage, toggleReaction },
+  } = useSocketContext();
+  const { root, replies, isLoading } = useThread(roomId, threadId);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+
+  const threadMessages = useMemo(() => (root ? [root, ...replies] : replies), [root, replies]);
+
+  return (
+    <aside className="flex flex-col h-full bg-background border-l animate-fade-in">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b shrink-0">
+        <div>
+          <h2 className="text-sm font-semibold">Thread</h2>
+          <p className="text-xs text-muted-foreground">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose} aria-label="Close thread">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-hidden min-h-0">
+        {root ? (
+          <MessageList
+            messages={threadMessages}
+            currentUserId={currentUserId}
+            isLoading={isLoading}
+            onRetryMessage={retryMessage}
+            onDiscardMessage={discardMessage}
+            onMessageSeen={markMessageRead}
+            isGroupRoom={isGroupRoom}
+            onEditMessage={editMessage}
+            onDeleteMessage={deleteMessage}
+            editingMessageId={editingMessageId}
+            onEditingMessageChange={setEditingMessageId}
+            onToggleReaction={toggleReaction}
+            onReply={setReplyTo}
+            memberNames={memberNames}
+            focusMessageId={focusMessageId}
+            onCopyLink={onCopyLink}
+          />
+        ) : (
+          <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+            {isLoading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              'This message is no longer available.'
+            )}
+          </div>
+        )}
+      </div>
+
+      {root && (
+        <div className="flex-shrink-0">
+          <MessageInput
+            conversationId={roomId}
+            threadId={threadId}
+            replyTo={replyTo}
+            onCancelReply={() => setReplyTo(null)}
+            placeholder="Reply in thread..."
+            members={members}
+          />
+        </div>
+      )}
+    </aside>
+  );
+}
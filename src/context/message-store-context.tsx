@@ -0,0 +1,64 @@
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  ReactNode,
+} from 'react';
+import { useAuth } from '@/context/auth-context';
+import { Message } from '@/lib/types';
+import { MessageStore, RoomHistoryState, createMessageStore } from '@/lib/message-store';
+
+const MessageStoreContext = createContext<MessageStore | undefined>(undefined);
+
+export function MessageStoreProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [store] = useState(createMessageStore);
+  const userIdRef = useRef(user?.id);
+
+  // Never let one account's messages outlive a sign-out or account switch
+  useEffect(() => {
+    const previousUserId = userIdRef.current;
+    userIdRef.current = user?.id;
+    if (previousUserId && previousUserId !== user?.id) {
+      store.reset();
+    }
+  }, [store, user?.id]);
+
+  return (
+    <MessageStoreContext.Provider value={store}>
+      {children}
+    </MessageStoreContext.Provider>
+  );
+}
+
+export function useMessageStore() {
+  const context = useContext(MessageStoreContext);
+  if (context === undefined) {
+    throw new Error('useMessageStore must be used within a MessageStoreProvider');
+  }
+  return context;
+}
+
+// Messages of one room in createdAt order; re-renders only when that room changes
+export function useRoomMessages(roomId: string): Message[] {
+  const store = useMessageStore();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getRoomMessages(roomId),
+    () => store.getRoomMessages(roomId)
+  );
+}
+
+export function useRoomHistoryState(roomId: string): RoomHistoryState {
+  const store = useMessageStore();
+  return useSyncExternalStore(
+    store.subscribe,
+    () => store.getHistoryState(roomId),
+    () => store.getHistoryState(roomId)
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
+import { useAuth } from '@/context/auth-context';
+import { logger } from '@/lib/utils';
+
+// Per-room "last read" markers: the createdAt of the newest message the user
+// has seen in each room. Persisted per account in localStorage so unread counts
+// and the "New messages" divider survive reloads.
+
+type LastReadMarkers = Record<string, string>;
+
+interface ReadStateContextType {
+  lastReadByRoom: LastReadMarkers;
+  getLastReadAt: (roomId: string) => string | undefined;
+  markRoomRead: (roomId: string, readUpTo: string) => void;
+}
+
+const ReadStateContext = createContext<ReadStateContextType | undefined>(undefined);
+
+const storageKeyFor = (userId: string) => `lastRead:${userId}`;
+
+const loadMarkers = (userId: string): LastReadMarkers => {
+  try {
+    const stored = localStorage.getItem(storageKeyFor(userId));
+    return stored ? (JSON.parse(stored) as LastReadMarkers) : {};
+  } catch (error) {
+    logger.warn('📖 Could not read last-read markers:', error);
+    return {};
+  }
+};
+
+export function ReadStateProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  // Markers are tagged with their owner so a switch of account never writes
+  // one user's markers under another user's key
+  const [readState, setReadState] = useState<{ userId?: string; markers: LastReadMarkers }>({
+    markers: {},
+  });
+  const lastReadByRoom = readState.markers;
+
+  useEffect(() => {
+    setReadState({ userId, markers: userId ? loadMarkers(userId) : {} });
+  }, [userId]);
+
+  useEffect(() => {
+    if (!readState.userId) return;
+    try {
+      localStorage.setItem(storageKeyFor(readState.userId), JSON.stringify(readState.markers));
+    } catch (error) {
+      logger.warn('📖 Could not persist last-read markers:', error);
+    }
+  }, [readState]);
+
+  const getLastReadAt = useCallback(
+    (roomId: string) => lastReadByRoom[roomId],
+    [lastReadByRoom]
+  );
+
+  // Markers only move forward, so an older page of history can't un-read a room
+  const markRoomRead = useCallback((roomId: string, readUpTo: string) => {
+    setReadState((prev) => {
+      const current = prev.markers[roomId];
+      if (current && new Date(current) >= new Date(readUpTo)) return prev;
+      return { ...prev, markers: { ...prev.markers, [roomId]: readUpTo } };
+    });
+  }, []);
+
+  const value = useMemo(
+    () => ({ lastReadByRoom, getLastReadAt, markRoomRead }),
+    [lastReadByRoom, getLastReadAt, markRoomRead]
+  );
+
+  return (
+    <ReadStateContext.Provider value={value}>
+      {children}
+    </ReadStateContext.Provider>
+  );
+}
+
+export function useReadState() {
+  const context = useContext(ReadStateContext);
+  if (context === undefined) {
+    throw new Error('useReadState must be used within a ReadStateProvider');
+  }
+  return context;
+}
@@ -11,15 +11,22 @@ import {
 } from "react";
 import { useAuth } from "@/context/auth-context";
 import { Room } from "@/lib/types";
-import { getRooms } from "@/lib/api";
+import { getRooms, joinPublicRoom as joinPublicRoomApi, leaveRoom as leaveRoomApi } from "@/lib/api";
 
 interface RoomContextType {
   rooms: Room[];
   isLoading: boolean;
   findRoomById: (id: string) => Room | undefined;
   refreshRooms: () => Promise<void>;
+  addRoom: (room: Room) => void;
+  replaceRoom: (id: string, room: Room) => void;
+  removeRoom: (id: string) => void;
+  joinPublicRoom: (room: Room) => Promise<MembershipResult>;
+  leaveRoom: (id: string) => Promise<MembershipResult>;
 }
 
+type MembershipResult = { success: boolean; message: string };
+
 const RoomContext = createContext<RoomContextType | undefined>(undefined);
 
 export function RoomProvider({ children }: { children: ReactNode }) {
@@ -66,11 +73,55 @@ export function RoomProvider({ children }: { children: ReactNode }) {
     return roomsRef.current.find((room) => room.id === id);
   }, []);
 
+  // Local edits for rooms created optimistically, before (or instead of) a
+  // refresh. Newest rooms go first.
+  const addRoom = useCallback((room: Room) => {
+    setRooms((prev) => [room, ...prev.filter((r) => r.id !== room.id)]);
+  }, []);
+
+  // Swaps in a newer copy of a room, or a placeholder for the room the server
+  // created. The server may hand back a room we already have (an existing DM),
+  // so that other copy is dropped.
+  const replaceRoom = useCallback((id: string, room: Room) => {
+    setRooms((prev) => {
+      if (!prev.some((r) => r.id === id)) return [room, ...prev.filter((r) => r.id !== room.id)];
+      return prev
+        .filter((r) => r.id === id || r.id !== room.id)
+        .map((r) => (r.id === id ? room : r));
+    });
+  }, []);
+
+  const removeRoom = useCallback((id: string) => {
+    setRooms((prev) => prev.filter((r) => r.id !== id));
+  }, []);
+
+  // Joining and leaving update the room list in place rather than refetching
+  // it, so the sidebar changes as soon as the server confirms
+  const joinPublicRoom = useCallback(async (room: Room) => {
+    const response = await joinPublicRoomApi(room.id);
+    if (response.success) {
+      const members = user && !room.members.includes(user.id) ? [...room.members, user.id] : room.members;
+      addRoom(response.room ?? { ...room, members });
+    }
+    return { success: response.success, message: response.message };
+  }, [user, addRoom]);
+
+  const leaveRoom = useCallback(async (id: string) => {
+    const response = await leaveRoomApi(id);
+    if (response.success) removeRoom(id);
+    return { success: response.success, message: response.message };
+  }, [removeRoom]);
+
   const value: RoomContextType = {
     rooms,
     isLoading,
     findRoomById,
     refreshRooms,
+    addRoom,
+    replaceRoom,
+    removeRoom,
+    joinPublicRoom,
+    leaveRoom,
   };
 
   return <RoomContext.Provider value={value}>{children}</RoomContext.Provider>;
@@ -1,19 +1,59 @@
 'use client';
 
-import { createContext, useContext, useState, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useMemo, ReactNode } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+
+// The selected room (and linked message) come from the URL, so rooms can be
+// bookmarked and shared and the back button moves between them:
+//   /chat/[roomId]                  a room
+//   /chat/[roomId]/m/[messageId]    a room, scrolled to one message
 
 interface SelectedRoomContextType {
   selectedRoomId: string | null;
+  selectedMessageId: string | null;
   setSelectedRoomId: (id: string | null) => void;
 }
 
 const SelectedRoomContext = createContext<SelectedRoomContextType | undefined>(undefined);
 
+export const roomPath = (roomId: string) => `/chat/${encodeURIComponent(roomId)}`;
+
+export const messagePath = (roomId: string, messageId: string) =>
+  `${roomPath(roomId)}/m/${encodeURIComponent(messageId)}`;
+
+// useParams hands back the still-encoded segment. A malformed escape (a stray
+// `%`) would throw during render, so it is kept as it was typed instead.
+const readParam = (value: string | string[] | undefined) => {
+  if (typeof value !== 'string') return null;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
 export function SelectedRoomProvider({ children }: { children: ReactNode }) {
-  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const params = useParams<{ roomId?: string; messageId?: string }>();
+  const router = useRouter();
+  const selectedRoomId = readParam(params?.roomId);
+  const selectedMessageId = readParam(params?.messageId);
+
+  // Pushes a history entry, so back returns to the previous room
+  const setSelectedRoomId = useCallback(
+    (id: string | null) => {
+      if (id === selectedRoomId && !selectedMessageId) return;
+      router.push(id ? roomPath(id) : '/chat');
+    },
+    [router, selectedRoomId, selectedMessageId]
+  );
+
+  const value = useMemo(
+    () => ({ selectedRoomId, selectedMessageId, setSelectedRoomId }),
+    [selectedRoomId, selectedMessageId, setSelectedRoomId]
+  );
 
   return (
-    <SelectedRoomContext.Provider value={{ selectedRoomId, setSelectedRoomId }}>
+    <SelectedRoomContext.Provider value={value}>
       {children}
     </SelectedRoomContext.Provider>
   );
@@ -8,12 +8,19 @@ type SocketHookType = ReturnType<typeof useSocket>;
 interface SocketContextType {
   actions: {
     connectSocket: SocketHookType['connectSocket'];
-    clearMessages: SocketHookType['clearMessages'];
     joinRoom: SocketHookType['joinRoom'];
     leaveRoom: SocketHookType['leaveRoom'];
     sendMessage: SocketHookType['sendMessage'];
+    retryMessage: SocketHookType['retryMessage'];
+    discardMessage: SocketHookType['discardMessage'];
+    retryFailedMessages: SocketHookType['retryFailedMessages'];
     startTyping: SocketHookType['startTyping'];
     stopTyping: SocketHookType['stopTyping'];
+    markMessageRead: SocketHookType['markMessageRead'];
+    editMessage: SocketHookType['editMessage'];
+    deleteMessage: SocketHookType['deleteMessage'];
+    toggleReaction: SocketHookType['toggleReaction'];
+    reconnect: SocketHookType['reconnect'];
   };
   data: {
     isConnected: SocketHookType['isConnected'];
@@ -21,9 +28,13 @@ interface SocketContextType {
     lastError: SocketHookType['lastError'];
     reconnectAttempts: SocketHookType['reconnectAttempts'];
     joinedRooms: SocketHookType['joinedRooms'];
-    
-    realtimeMessages: SocketHookType['realtimeMessages'];
-    typingUsers: SocketHookType['typingUsers'];
+    rejoiningRooms: SocketHookType['rejoiningRooms'];
+    lastResync: SocketHookType['lastResync'];
+    typingByRoom: SocketHookType['typingByRoom'];
+    readReceiptsByRoom: SocketHookType['readReceiptsByRoom'];
+    isShutdown: SocketHookType['isShutdown'];
+    isOffline: SocketHookType['isOffline'];
+    diagnostics: SocketHookType['diagnostics'];
   };
 }
 
@@ -36,27 +47,45 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     lastError,
     reconnectAttempts,
     joinedRooms,
-
-    realtimeMessages,
-    typingUsers,
+    rejoiningRooms,
+    lastResync,
+    typingByRoom,
+    readReceiptsByRoom,
     connectSocket,
-    clearMessages,
     joinRoom,
     leaveRoom,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    retryFailedMessages,
     startTyping,
     stopTyping,
+    markMessageRead,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reconnect,
+    isShutdown,
+    isOffline,
+    diagnostics,
   } = useSocket();
 
   const actions = useMemo(() => ({
     connectSocket,
-    clearMessages,
     joinRoom,
     leaveRoom,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    retryFailedMessages,
     startTyping,
     stopTyping,
-  }), [connectSocket, clearMessages, joinRoom, leaveRoom, sendMessage, startTyping, stopTyping]);
+    markMessageRead,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    reconnect,
+  }), [connectSocket, joinRoom, leaveRoom, sendMessage, retryMessage, discardMessage, retryFailedMessages, startTyping, stopTyping, markMessageRead, editMessage, deleteMessage, toggleReaction, reconnect]);
 
   const data = useMemo(() => ({
     isConnected,
@@ -64,10 +93,14 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     lastError,
     reconnectAttempts,
     joinedRooms,
-
-    realtimeMessages,
-    typingUsers,
-  }), [isConnected, connectionState, lastError, reconnectAttempts, joinedRooms, realtimeMessages, typingUsers]);
+    rejoiningRooms,
+    lastResync,
+    typingByRoom,
+    readReceiptsByRoom,
+    isShutdown,
+    isOffline,
+    diagnostics,
+  }), [isConnected, connectionState, lastError, reconnectAttempts, joinedRooms, rejoiningRooms, lastResync, typingByRoom, readReceiptsByRoom, isShutdown, isOffline, diagnostics]);
 
   const contextValue = useMemo(() => ({ actions, data }), [actions, data]);
 
@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { uploadAttachment } from "@/lib/api";
+import { isImageAttachment, MAX_PENDING_ATTACHMENTS, validateAttachmentFile } from "@/lib/attachments";
+import { MessageAttachment } from "@/lib/types";
+import { logger } from "@/lib/utils";
+
+export type PendingUpload = {
+  id: string;
+  file: File;
+  previewUrl?: string; // ← Object URL, images only
+  progress: number; // ← 0–100
+  status: "uploading" | "uploaded" | "failed";
+  error?: string;
+  attachment?: MessageAttachment;
+};
+
+const readImageSize = (url: string) =>
+  new Promise<{ width: number; height: number } | undefined>((resolve) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => resolve(undefined);
+    image.src = url;
+  });
+
+// Files the user is about to send. Uploading starts as soon as a file is added,
+// so by the time they press send most of the work is done; the message itself
+// only goes out once every upload has finished.
+export const useAttachmentUploads = () => {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const uploadsRef = useRef<PendingUpload[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // The ref mirrors state so callbacks from in-flight uploads see the latest list
+  const commitUploads = useCallback((next: PendingUpload[]) => {
+    uploadsRef.current = next;
+    setUploads(next);
+  }, []);
+
+  const updateUpload = useCallback((id: string, changes: Partial<PendingUpload>) => {
+    commitUploads(uploadsRef.current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload)));
+  }, [commitUploads]);
+
+  const startUpload = useCallback(async (upload: PendingUpload) => {
+    const controller = new AbortController();
+    controllersRef.current.set(upload.id, controller);
+
+    const [response, size] = await Promise.all([
+      uploadAttachment(upload.file, {
+        signal: controller.signal,
+        onProgress: (progress) => updateUpload(upload.id, { progress }),
+      }),
+      upload.previewUrl ? readImageSize(upload.previewUrl) : Promise.resolve(undefined),
+    ]);
+    controllersRef.current.delete(upload.id);
+
+    // Cancelled uploads were already removed from the list
+    if (response.cancelled) return;
+
+    if (response.success && response.attachment) {
+      updateUpload(upload.id, {
+        status: "uploaded",
+        progress: 100,
+        attachment: { ...response.attachment, ...size },
+      });
+    } else {
+      logger.warn("📎 Upload failed:", upload.file.name, response.message);
+      updateUpload(upload.id, { status: "failed", error: response.message });
+    }
+  }, [updateUpload]);
+
+  // Returns a message for every file that was refused
+  const addFiles = useCallback((files: Iterable<File>): string[] => {
+    const errors: string[] = [];
+    const added: PendingUpload[] = [];
+    let room = MAX_PENDING_ATTACHMENTS - uploadsRef.current.length;
+
+    for (const file of Array.from(files)) {
+      const error = validateAttachmentFile(file);
+      if (error) {
+        errors.push(error);
+        continue;
+      }
+      if (room <= 0) {
+        errors.push(`You can attach up to ${MAX_PENDING_ATTACHMENTS} files at once`);
+        break;
+      }
+      room -= 1;
+      added.push({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: isImageAttachment(file.type) ? URL.createObjectURL(file) : undefined,
+        progress: 0,
+        status: "uploading",
+      });
+    }
+
+    if (added.length > 0) {
+      commitUploads([...uploadsRef.current, ...added]);
+      added.forEach((upload) => void startUpload(upload));
+    }
+    return errors;
+  }, [commitUploads, startUpload]);
+
+  const removeUpload = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+
+    const upload = uploadsRef.current.find((u) => u.id === id);
+    if (upload?.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    commitUploads(uploadsRef.current.filter((u) => u.id !== id));
+  }, [commitUploads]);
+
+  const retryUpload = useCallback((id: string) => {
+    const upload = uploadsRef.current.find((u) => u.id === id);
+    if (!upload || upload.status !== "failed") return;
+
+    const retried: PendingUpload = { ...upload, status: "uploading", progress: 0, error: undefined };
+    updateUpload(id, { status: "uploading", progress: 0, error: undefined });
+    void startUpload(retried);
+  }, [startUpload, updateUpload]);
+
+  // Hands over the finished attachments and drops them from the list; failed
+  // uploads stay so they can be retried or removed. Preview URLs are revoked
+  // since the sent message shows the uploaded copy instead.
+  const takeAttachments = useCallback((): MessageAttachment[] => {
+    const finished = uploadsRef.current.filter((upload) => upload.status === "uploaded" && upload.attachment);
+
+    finished.forEach((upload) => {
+      if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    });
+    commitUploads(uploadsRef.current.filter((upload) => !finished.includes(upload)));
+    return finished.map((upload) => upload.attachment!);
+  }, [commitUploads]);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      uploadsRef.current.forEach((upload) => {
+        if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      });
+    };
+  }, []);
+
+  return {
+    uploads,
+    isUploading: uploads.some((upload) => upload.status === "uploading"),
+    addFiles,
+    removeUpload,
+    retryUpload,
+    takeAttachments,
+  };
+};
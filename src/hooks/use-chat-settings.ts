@@ -0,0 +1,67 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { logger } from "@/lib/utils";
+
+// Chat preferences persisted in localStorage. Kept in a module-level store so
+// every consumer (the settings page, the socket layer) sees changes at once,
+// including changes saved from another tab.
+
+export type ChatSettings = {
+  readReceipts: boolean;
+};
+
+const STORAGE_KEY = "chat-settings";
+
+const defaultSettings: ChatSettings = {
+  readReceipts: true,
+};
+
+let cachedSettings: ChatSettings | null = null;
+const listeners = new Set<() => void>();
+
+const readStoredSettings = (): ChatSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings;
+  } catch (error) {
+    logger.warn("⚙️ Could not read chat settings:", error);
+    return defaultSettings;
+  }
+};
+
+export const getChatSettings = (): ChatSettings => {
+  if (typeof window === "undefined") return defaultSettings;
+  cachedSettings ??= readStoredSettings();
+  return cachedSettings;
+};
+
+export const updateChatSettings = (patch: Partial<ChatSettings>) => {
+  cachedSettings = { ...getChatSettings(), ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cachedSettings));
+  } catch (error) {
+    logger.warn("⚙️ Could not persist chat settings:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedSettings = null;
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+export const useChatSettings = () => {
+  const settings = useSyncExternalStore(subscribe, getChatSettings, () => defaultSettings);
+  return { settings, updateSettings: updateChatSettings };
+};
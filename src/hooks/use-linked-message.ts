@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useMessageHistory } from "@/hooks/use-message-history";
+
+// Most links point at recent messages; older ones are reached by paging back
+// through history, but only this far
+const MAX_LINK_PAGES = 25;
+
+export type LinkedMessageStatus = "idle" | "loading" | "found" | "missing";
+
+// Resolves the message a /chat/[roomId]/m/[messageId] link points at. History
+// is paged back until the message is in the store, so everything between it and
+// the latest message is loaded too and the timeline stays contiguous.
+export const useLinkedMessage = (roomId: string, messageId?: string) => {
+  const { messages, hasMore, isLoadingHistory, hasLoadedInitial, loadMoreHistory } = useMessageHistory(roomId);
+  const [link, setLink] = useState({ roomId, messageId, pagesLoaded: 0 });
+
+  // Start counting pages afresh for every link
+  const pagesLoaded = link.roomId === roomId && link.messageId === messageId ? link.pagesLoaded : 0;
+
+  const message = useMemo(
+    () => (messageId ? messages.find((m) => m.id === messageId) : undefined),
+    [messages, messageId]
+  );
+
+  const canLoadMore = hasMore && pagesLoaded < MAX_LINK_PAGES;
+
+  useEffect(() => {
+    if (!messageId || message || !hasLoadedInitial || isLoadingHistory || !canLoadMore) return;
+    setLink({ roomId, messageId, pagesLoaded: pagesLoaded + 1 });
+    loadMoreHistory();
+  }, [roomId, messageId, message, hasLoadedInitial, isLoadingHistory, canLoadMore, pagesLoaded, loadMoreHistory]);
+
+  let status: LinkedMessageStatus = "idle";
+  if (messageId) {
+    if (message) status = "found";
+    else if (!hasLoadedInitial || isLoadingHistory || canLoadMore) status = "loading";
+    else status = "missing";
+  }
+
+  return { message, status };
+};
@@ -1,9 +1,14 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useEffect, useCallback } from "react";
 import { Message } from "@/lib/types";
 // Removed unused imports: useAuth, useToast
 import { getMessageHistory } from "@/lib/api";
+import {
+  useMessageStore,
+  useRoomHistoryState,
+  useRoomMessages,
+} from "@/context/message-store-context";
 
 // Define interface for raw message objects from the API
 interface RawApiMessage {
@@ -14,100 +19,103 @@ interface RawApiMessage {
   username: string;
   roomId: string;
   messageType?: 'text' | 'image' | 'file'; // Assuming these are the possible types
+  editedAt?: string;
+  editHistory?: Message['editHistory'];
+  deletedAt?: string;
+  reactions?: Record<string, string[]>;
+  parentId?: string;
+  threadId?: string;
+  metadata?: Record<string, unknown>;
   // Add any other properties that might come from the API if needed
 }
 
 const MESSAGE_LIMIT = 20;
 
+// Transform API messages to match our Message type
+export const transformApiMessages = (messages: unknown[]): Message[] => {
+  // Explicitly cast messages to RawApiMessage[]
+  const rawMessages = messages as RawApiMessage[];
+  return rawMessages.map((msg: RawApiMessage) => ({
+    id: msg.id,
+    content: msg.content,
+    createdAt: msg.createdAt,
+    userId: msg.userId,
+    username: msg.username,
+    roomId: msg.roomId,
+    messageType: msg.messageType || 'text',
+    status: 'sent' as const,
+    editedAt: msg.editedAt,
+    editHistory: msg.editHistory,
+    deletedAt: msg.deletedAt,
+    reactions: msg.reactions,
+    parentId: msg.parentId,
+    threadId: msg.threadId,
+    metadata: msg.metadata,
+  }));
+};
+
+// History pages are written into the shared message store, so a room that was
+// loaded once renders instantly when switched back to, together with anything
+// the socket received for it in the meantime.
 export const useMessageHistory = (roomId: string) => {
-  const [historyMessages, setHistoryMessages] = useState<Message[]>([]);
-  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
-  const [hasLoadedInitial, setHasLoadedInitial] = useState(false);
-  // Removed unused variable: toast
+  const store = useMessageStore();
+  const messages = useRoomMessages(roomId);
+  const { page, hasMore, isLoading: isLoadingHistory, hasLoadedInitial } =
+    useRoomHistoryState(roomId);
 
   const fetchHistory = useCallback(
     async (currentPage: number, currentRoomId: string) => {
-      if (!currentRoomId) return;
+      if (!currentRoomId || store.getHistoryState(currentRoomId).isLoading) return;
 
-      setIsLoadingHistory(true);
+      store.setHistoryState(currentRoomId, { isLoading: true });
       try {
         const response = await getMessageHistory(currentRoomId, currentPage, MESSAGE_LIMIT);
 
         if (response.success && response.messages) {
-          // Explicitly cast response.messages to RawApiMessage[]
-          const rawMessages = response.messages as RawApiMessage[];
-          // Transform API messages to match our Message type
-          const transformedMessages: Message[] = rawMessages.map((msg: RawApiMessage) => ({
-            id: msg.id,
-            content: msg.content,
-            createdAt: msg.createdAt,
-            userId: msg.userId,
-            username: msg.username,
-            roomId: msg.roomId,
-            messageType: msg.messageType || 'text',
-            status: 'sent' as const,
-          }));
-
-          setHistoryMessages((prev) =>
-            currentPage === 1 ? transformedMessages : [...prev, ...transformedMessages]
-          );
+          store.addMessages(transformApiMessages(response.messages));
 
           // Check if there are more pages
           const hasMorePages = response.pagination ?
             (response.pagination.hasNext || currentPage < response.pagination.totalPages) : false;
-          setHasMore(hasMorePages);
+          // A refresh of page 1 must not rewind pagination that went further back
+          if (currentPage >= store.getHistoryState(currentRoomId).page) {
+            store.setHistoryState(currentRoomId, { page: currentPage, hasMore: hasMorePages });
+          }
         } else {
           console.error("Failed to fetch message history:", response.message);
-          if (currentPage === 1) {
-            setHistoryMessages([]);
-          }
-          setHasMore(false);
+          store.setHistoryState(currentRoomId, { hasMore: false });
         }
       } catch (error) {
         console.error("Failed to fetch message history:", error);
-        if (currentPage === 1) {
-          setHistoryMessages([]);
-        }
-        setHasMore(false);
+        store.setHistoryState(currentRoomId, { hasMore: false });
       } finally {
-        setIsLoadingHistory(false);
+        store.setHistoryState(currentRoomId, { isLoading: false });
       }
     },
-    []
+    [store]
   );
 
-  // Load initial messages only once per room
+  // Load the first page only once per room; later visits reuse the store.
+  // Runs again if the room's history was reset (see resyncRoom in useSocket).
   useEffect(() => {
-    // Always clear messages when room changes - CRITICAL for privacy
-    setHistoryMessages([]);
-    setPage(1);
-    setHasMore(true);
-    setHasLoadedInitial(false);
-
-    if (roomId) {
-      setHasLoadedInitial(true);
+    if (roomId && !store.getHistoryState(roomId).hasLoadedInitial) {
+      store.setHistoryState(roomId, { hasLoadedInitial: true });
       fetchHistory(1, roomId);
     }
-  }, [roomId, fetchHistory]);
+  }, [roomId, store, fetchHistory, hasLoadedInitial]);
 
   const loadMoreHistory = useCallback(() => {
     if (isLoadingHistory || !hasMore || !roomId) return;
-    const nextPage = page + 1;
-    setPage(nextPage);
-    fetchHistory(nextPage, roomId);
+    fetchHistory(page + 1, roomId);
   }, [isLoadingHistory, hasMore, page, roomId, fetchHistory]);
 
   const refreshMessages = useCallback(() => {
     if (!roomId) return;
-    setPage(1);
-    setHasMore(true);
     fetchHistory(1, roomId);
   }, [roomId, fetchHistory]);
 
   return { 
-    historyMessages, 
+    messages, 
     isLoadingHistory, 
     loadMoreHistory, 
     hasMore,
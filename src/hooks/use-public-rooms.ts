@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Room } from "@/lib/types";
+import { getPublicRooms } from "@/lib/api";
+import { logger } from "@/lib/utils";
+
+const SEARCH_DELAY = 300;
+
+// The public room directory, searched as the user types. Each keystroke
+// restarts the delay, and only the answer to the latest search is kept.
+export const usePublicRooms = (search: string) => {
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const fetchRooms = useCallback(async (query: string) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+
+    const response = await getPublicRooms(query || undefined);
+    if (request !== requestRef.current) return;
+
+    if (response.success && response.rooms) {
+      setRooms(response.rooms);
+      setError(null);
+    } else {
+      logger.warn("🧭 Failed to load public rooms:", response.message);
+      setError(response.message);
+    }
+    setIsLoading(false);
+  }, []);
+
+  const query = search.trim();
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchRooms(query), query ? SEARCH_DELAY : 0);
+    return () => clearTimeout(timer);
+  }, [query, fetchRooms]);
+
+  const refresh = useCallback(() => fetchRooms(query), [fetchRooms, query]);
+
+  return { rooms, isLoading, error, refresh };
+};
@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
+import { Message, Room } from "@/lib/types";
+import { useAuth } from "@/context/auth-context";
+import { useMessageStore } from "@/context/message-store-context";
+import { useReadState } from "@/context/read-state-context";
+import { useSelectedRoom } from "@/context/selected-room-context";
+import { mentionsUser } from "@/lib/mentions";
+
+// `mentionCount` counts the unread messages that mention the current user
+export type RoomWithActivity = Room & { lastMessage?: Message; mentionCount: number };
+
+const timeOf = (timestamp?: string) => (timestamp ? new Date(timestamp).getTime() : 0);
+
+// Decorates rooms with `unreadCount`, `mentionCount`, `lastActivity` and their last message,
+// derived from the message store and the persisted last-read markers, and
+// orders them by most recent activity.
+export const useRoomActivity = (rooms: Room[]): RoomWithActivity[] => {
+  const store = useMessageStore();
+  const { user } = useAuth();
+  const { selectedRoomId } = useSelectedRoom();
+  const { lastReadByRoom } = useReadState();
+
+  // Message lists of every room; only a new identity when one of them changed
+  const snapshotRef = useRef<Message[][]>([]);
+  const getSnapshot = useCallback(() => {
+    const next = rooms.map((room) => store.getRoomMessages(room.id));
+    const previous = snapshotRef.current;
+    if (next.length === previous.length && next.every((messages, i) => messages === previous[i])) {
+      return previous;
+    }
+    snapshotRef.current = next;
+    return next;
+  }, [store, rooms]);
+
+  const roomMessages = useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+
+  return useMemo(() => {
+    const withActivity = rooms.map((room, index): RoomWithActivity => {
+      const messages = roomMessages[index] ?? [];
+      const lastMessage = messages[messages.length - 1];
+      const lastReadAt = timeOf(lastReadByRoom[room.id]);
+
+      const unread =
+        room.id === selectedRoomId
+          ? []
+          : messages.filter(
+              (m) => m.userId !== user?.id && timeOf(m.createdAt) > lastReadAt
+            );
+
+      return {
+        ...room,
+        unreadCount: unread.length,
+        mentionCount: user ? unread.filter((m) => mentionsUser(m, user.id)).length : 0,
+        lastActivity: lastMessage?.createdAt ?? room.lastActivity ?? room.updatedAt,
+        lastMessage,
+      };
+    });
+
+    return withActivity.sort((a, b) => timeOf(b.lastActivity) - timeOf(a.lastActivity));
+  }, [rooms, roomMessages, lastReadByRoom, selectedRoomId, user]);
+};
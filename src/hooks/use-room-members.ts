@@ -0,0 +1,58 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Room, RoomMember } from "@/lib/types";
+import { getRoomMembers } from "@/lib/api";
+import { logger } from "@/lib/utils";
+import { useRoomMessages } from "@/context/message-store-context";
+
+const EMPTY_MEMBERS: RoomMember[] = [];
+
+// The members of a room resolved to usernames. `room.members` only holds ids,
+// so the profiles come from the members endpoint; ids it couldn't resolve fall
+// back to the author names seen in the room's messages.
+export const useRoomMembers = (room: Room | null) => {
+  const roomId = room?.id ?? "";
+  const messages = useRoomMessages(roomId);
+  const [fetched, setFetched] = useState<{ roomId: string; members: RoomMember[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Resolves with the fresh list, or undefined when it couldn't be loaded
+  const refresh = useCallback(async () => {
+    if (!roomId) return undefined;
+
+    setIsLoading(true);
+    try {
+      const response = await getRoomMembers(roomId);
+      if (response.success && response.members) {
+        setFetched({ roomId, members: response.members });
+        return response.members;
+      }
+      logger.warn("👥 Failed to load room members:", response.message);
+      return undefined;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const members = useMemo(() => {
+    if (!room) return EMPTY_MEMBERS;
+
+    // A response for the previous room may land after a switch; ignore it
+    const resolved = fetched?.roomId === room.id ? fetched.members : EMPTY_MEMBERS;
+    const byId = new Map(resolved.map((member) => [member.id, member]));
+    const memberIds = new Set(room.members);
+    messages.forEach((message) => {
+      if (!byId.has(message.userId) && memberIds.has(message.userId)) {
+        byId.set(message.userId, { id: message.userId, username: message.username });
+      }
+    });
+    return [...byId.values()];
+  }, [room, fetched, messages]);
+
+  return { members, isLoading, refresh };
+};
@@ -0,0 +1,76 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { logger } from "@/lib/utils";
+
+// Rooms muted with `/mute`, persisted in localStorage as roomId → the ISO time
+// the mute ends. Muted rooms keep counting unread messages but the sidebar
+// stops drawing attention to them; mentions still get through.
+
+export type RoomMutes = Record<string, string>;
+
+const STORAGE_KEY = "room-mutes";
+
+const EMPTY_MUTES: RoomMutes = {};
+
+let cachedMutes: RoomMutes | null = null;
+const listeners = new Set<() => void>();
+
+const readStoredMutes = (): RoomMutes => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RoomMutes) : EMPTY_MUTES;
+  } catch (error) {
+    logger.warn("🔕 Could not read room mutes:", error);
+    return EMPTY_MUTES;
+  }
+};
+
+export const getRoomMutes = (): RoomMutes => {
+  if (typeof window === "undefined") return EMPTY_MUTES;
+  cachedMutes ??= readStoredMutes();
+  return cachedMutes;
+};
+
+const writeRoomMutes = (mutes: RoomMutes) => {
+  cachedMutes = mutes;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mutes));
+  } catch (error) {
+    logger.warn("🔕 Could not persist room mutes:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const muteRoom = (roomId: string, until: Date) => {
+  writeRoomMutes({ ...getRoomMutes(), [roomId]: until.toISOString() });
+};
+
+export const unmuteRoom = (roomId: string) => {
+  const mutes = { ...getRoomMutes() };
+  delete mutes[roomId];
+  writeRoomMutes(mutes);
+};
+
+export const isRoomMuted = (mutes: RoomMutes, roomId: string, now: number = Date.now()) => {
+  const until = mutes[roomId];
+  return Boolean(until) && new Date(until).getTime() > now;
+};
+
+const subscribe = (listener: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cachedMutes = null;
+    listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+export const useRoomMutes = () =>
+  useSyncExternalStore(subscribe, getRoomMutes, () => EMPTY_MUTES);
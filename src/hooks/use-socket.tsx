@@ -1,48 +1,382 @@
 "use client";
 
 import { useEffect, useRef, useState, useCallback } from "react";
-import { io, Socket } from "socket.io-client";
+import { io } from "socket.io-client";
 import { Message } from "@/lib/types";
 import { useAuth } from '@/context/auth-context';
 import { useToast } from "@/hooks/use-toast";
 import { logger } from "@/lib/utils";
-import { getWsToken } from "@/lib/api";
+import { getMessagesSince, getWsToken } from "@/lib/api";
+import { transformApiMessages } from "@/hooks/use-message-history";
+import { useMessageStore } from "@/context/message-store-context";
+import { getChatSettings } from "@/hooks/use-chat-settings";
+import { TabBus, createTabBus, requestLeadership } from "@/lib/tab-bus";
+import {
+  AppSocket,
+  RoomPayload,
+  DeleteMessagePayload,
+  EditMessagePayload,
+  MarkReadPayload,
+  ReactionPayload,
+  SendMessagePayload,
+  TYPING_EXPIRY,
+  isRejectedAck,
+  isValidClientPayload,
+  parseServerEvent,
+} from "@/lib/socket-protocol";
+import {
+  OutboxEntry,
+  addOutboxEntry,
+  getOutboxEntries,
+  removeOutboxEntry,
+} from "@/lib/outbox";
 
 type SendMessageData = {
   roomId: string;
   content: string;
   messageType?: string;
+  // Quote-reply target and thread root, both message ids
+  parentId?: string;
+  threadId?: string;
+  metadata?: Record<string, unknown>;
 };
 
 type ConnectionState = "disconnected" | "connecting" | "connected";
 
+type ResyncSummary = {
+  count: number;
+  reloadedRooms: string[]; // ← Too far behind to fill in; their history is loaded afresh
+  at: number;
+};
+
+export type TypingUser = {
+  userId: string;
+  username: string;
+  expiresAt: number;
+};
+
+// roomId → typists in that room, in the order they started typing
+export type TypingByRoom = Record<string, TypingUser[]>;
+
+const withoutTypist = (typing: TypingByRoom, roomId: string, userId: string): TypingByRoom => {
+  const typists = typing[roomId];
+  if (!typists?.some((t) => t.userId === userId)) return typing;
+
+  const next = { ...typing };
+  const remaining = typists.filter((t) => t.userId !== userId);
+  if (remaining.length > 0) {
+    next[roomId] = remaining;
+  } else {
+    delete next[roomId];
+  }
+  return next;
+};
+
+const withoutExpiredTypists = (typing: TypingByRoom, now: number): TypingByRoom => {
+  let changed = false;
+  const next: TypingByRoom = {};
+  Object.entries(typing).forEach(([roomId, typists]) => {
+    const active = typists.filter((t) => t.expiresAt > now);
+    if (active.length !== typists.length) changed = true;
+    if (active.length > 0) next[roomId] = active;
+  });
+  return changed ? next : typing;
+};
+
+export type ReadReceipt = MarkReadPayload & {
+  userId: string;
+  username: string;
+};
+
+// roomId → userId → that member's latest read position in the room
+export type ReadReceiptsByRoom = Record<string, Record<string, ReadReceipt>>;
+
+// What restarted the connection cycle, recorded in the diagnostics history
+type RestartTrigger = "manual" | "back online" | "tab visible";
+
+type ConnectionEvent = {
+  at: number;
+  type: "connected" | "disconnected" | "error" | "shutdown" | "offline" | "restart";
+  detail?: string;
+};
+
+export type SocketDiagnostics = {
+  latencyMs: number | null;
+  lastPingAt: number | null;
+  transport: string | null;
+  connectedSince: number | null;
+  lastDisconnectReason: string | null;
+  connectionHistory: ConnectionEvent[];
+  messagesIn: number;
+  messagesOut: number;
+  messagesInPerMinute: number;
+  messagesOutPerMinute: number;
+};
+
+const PING_INTERVAL = 15000;
+const PING_TIMEOUT = 5000;
+const THROUGHPUT_WINDOW = 60000;
+const MAX_HISTORY = 20;
+const RESYNC_PAGE_SIZE = 100;
+const MAX_RESYNC_PAGES = 10;
+
+const initialDiagnostics: SocketDiagnostics = {
+  latencyMs: null,
+  lastPingAt: null,
+  transport: null,
+  connectedSince: null,
+  lastDisconnectReason: null,
+  connectionHistory: [],
+  messagesIn: 0,
+  messagesOut: 0,
+  messagesInPerMinute: 0,
+  messagesOutPerMinute: 0,
+};
+
 interface SocketError extends Error {
   code?: string;
   context?: string;
 }
 
+// "interrupted" means the transport dropped before the ack arrived, so the
+// message goes back to the outbox instead of being marked as failed.
+type DeliveryResult = "delivered" | "failed" | "interrupted";
+
+type AckResult = {
+  status: DeliveryResult;
+  response?: unknown;
+};
+
+/* ---------- Multi-tab sharing ----------
+ * Only the leader tab (elected through a Web Lock) holds a Socket.IO
+ * connection. It relays server events and its connection state to the other
+ * tabs over the tab bus, and executes emits on their behalf. */
+
+const TAB_CHANNEL = "aether-socket";
+const LEADER_LOCK = "aether-socket-leader";
+const COMMAND_TIMEOUT = 15000;
+
+// Server events fanned out to follower tabs. Room membership and connection
+// state travel in the `state` snapshot instead.
+const RELAYED_EVENTS = [
+  "new_message",
+  "user_typing",
+  "message_confirmed",
+  "message_error",
+  "read_receipt",
+  "message_edited",
+  "message_deleted",
+  "reaction_added",
+  "reaction_removed",
+] as const;
+
+type RelayedEvent = (typeof RELAYED_EVENTS)[number];
+
+type SharedSocketState = {
+  connectionState: ConnectionState;
+  lastError: string | null;
+  reconnectAttempts: number;
+  isShutdown: boolean;
+  joinedRooms: string[];
+  rejoiningRooms: string[];
+  diagnostics: SocketDiagnostics;
+};
+
+type TabCommand =
+  | {
+      kind: "emit";
+      event: "join_room" | "leave_room" | "typing_start" | "typing_stop";
+      payload: RoomPayload;
+    }
+  | { kind: "emit"; event: "mark_read"; payload: MarkReadPayload }
+  | { kind: "emit_with_ack"; event: "send_message"; payload: SendMessagePayload }
+  | { kind: "emit_with_ack"; event: "edit_message"; payload: EditMessagePayload }
+  | { kind: "emit_with_ack"; event: "delete_message"; payload: DeleteMessagePayload }
+  | { kind: "emit_with_ack"; event: "add_reaction" | "remove_reaction"; payload: ReactionPayload }
+  | { kind: "flush_outbox" }
+  | { kind: "reconnect"; trigger: RestartTrigger };
+
+type TabMessage =
+  | { type: "hello"; from: string; rooms: string[] }
+  | { type: "leader"; from: string }
+  | { type: "state"; from: string; state: SharedSocketState }
+  | { type: "event"; from: string; event: RelayedEvent; payload: unknown }
+  | { type: "rooms"; from: string; rooms: string[] }
+  | { type: "bye"; from: string }
+  | { type: "command"; from: string; requestId: string; command: TabCommand }
+  | { type: "command_result"; from: string; to: string; requestId: string; result: AckResult };
+
+type AckCommand = Extract<TabCommand, { kind: "emit_with_ack" }>;
+
+// Narrows per event so each payload is checked against its own signature
+const emitCommandWithAck = (socket: AppSocket, command: AckCommand) => {
+  switch (command.event) {
+    case "send_message":
+      return socket.emitWithAck("send_message", command.payload);
+    case "edit_message":
+      return socket.emitWithAck("edit_message", command.payload);
+    case "delete_message":
+      return socket.emitWithAck("delete_message", command.payload);
+    case "add_reaction":
+      return socket.emitWithAck("add_reaction", command.payload);
+    case "remove_reaction":
+      return socket.emitWithAck("remove_reaction", command.payload);
+  }
+};
+
+// Applies an edit, keeping the replaced version in the message's history.
+// Our own optimistic edit echoed back by the server only takes its timestamp.
+const withEdit = (message: Message, content: string, editedAt: string): Message => {
+  if (message.content === content) return { ...message, editedAt };
+  return {
+    ...message,
+    content,
+    editedAt,
+    editHistory: [
+      ...(message.editHistory ?? []),
+      { content: message.content, editedAt },
+    ],
+  };
+};
+
+// Reaction updates are idempotent, so our own reaction echoed back is a no-op
+const withReaction = (message: Message, emoji: string, userId: string): Message => {
+  const users = message.reactions?.[emoji] ?? [];
+  if (users.includes(userId)) return message;
+  return { ...message, reactions: { ...message.reactions, [emoji]: [...users, userId] } };
+};
+
+const withoutReaction = (message: Message, emoji: string, userId: string): Message => {
+  const users = message.reactions?.[emoji];
+  if (!users?.includes(userId)) return message;
+
+  const reactions = { ...message.reactions };
+  const remaining = users.filter((id) => id !== userId);
+  if (remaining.length > 0) {
+    reactions[emoji] = remaining;
+  } else {
+    delete reactions[emoji];
+  }
+  return { ...message, reactions };
+};
+
+// Deleted messages stay in the timeline as tombstones
+const asTombstone = (message: Message, deletedAt: string): Message => ({
+  ...message,
+  content: "",
+  editHistory: undefined,
+  reactions: undefined,
+  deletedAt,
+});
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+
+const toOutboxEntry = (message: Message): OutboxEntry => ({
+  tempId: message.tempId || message.id,
+  roomId: message.roomId,
+  content: message.content,
+  messageType: message.messageType || "text",
+  userId: message.userId,
+  username: message.username,
+  createdAt: message.createdAt,
+  parentId: message.parentId,
+  threadId: message.threadId,
+  metadata: message.metadata,
+});
+
+const fromOutboxEntry = (entry: OutboxEntry): Message => ({
+  id: entry.tempId,
+  tempId: entry.tempId,
+  content: entry.content,
+  createdAt: entry.createdAt,
+  userId: entry.userId,
+  username: entry.username,
+  roomId: entry.roomId,
+  messageType: entry.messageType,
+  parentId: entry.parentId,
+  threadId: entry.threadId,
+  metadata: entry.metadata,
+  status: entry.status ?? "queued",
+});
+
 export const useSocket = () => {
   const { user, isAuthenticated } = useAuth();
   const { toast } = useToast();
+  // Messages of every room live in the shared store, not in hook state
+  const store = useMessageStore();
 
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<AppSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const failTimersRef = useRef(new Map<string, NodeJS.Timeout>());
   const connectionAttemptRef = useRef(0);
 
   const [connectionState, setConnectionState] =
     useState<ConnectionState>("disconnected");
-  const [realtimeMessages, setRealtimeMessages] = useState<Message[]>([]);
-  const [typingUsers, setTypingUsers] = useState<Set<string>>(new Set());
+  const [typingByRoom, setTypingByRoom] = useState<TypingByRoom>({});
+  const [readReceiptsByRoom, setReadReceiptsByRoom] = useState<ReadReceiptsByRoom>({});
+  // Newest read marker this client emitted per room, to avoid re-sending older ones
+  const sentReadMarkersRef = useRef(new Map<string, string>());
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const [lastError, setLastError] = useState<string | null>(null);
   const [joinedRooms, setJoinedRooms] = useState<Set<string>>(new Set());
   const [isShutdown, setIsShutdown] = useState(false);
+  const [isOffline, setIsOffline] = useState(
+    () => typeof navigator !== "undefined" && !navigator.onLine
+  );
+  const [lastResync, setLastResync] = useState<ResyncSummary | null>(null);
+
+  const [rejoiningRooms, setRejoiningRooms] = useState<Set<string>>(new Set());
+  const [diagnostics, setDiagnostics] =
+    useState<SocketDiagnostics>(initialDiagnostics);
+  const [isLeader, setIsLeader] = useState(false);
+  const isLeaderRef = useRef(isLeader);
+  isLeaderRef.current = isLeader;
+
+  const tabIdRef = useRef(createId("tab"));
+  const busRef = useRef<TabBus<TabMessage> | null>(null);
+  const handleTabMessageRef = useRef<(message: TabMessage) => void>();
+  const sharedStateRef = useRef<SharedSocketState | null>(null);
+  // Leader only: rooms wanted by each follower tab, keyed by tab id
+  const remoteRoomsRef = useRef(new Map<string, Set<string>>());
+  // Follower only: commands awaiting a result from the leader
+  const pendingCommandsRef = useRef(
+    new Map<string, { resolve: (result: AckResult) => void; timer: NodeJS.Timeout }>()
+  );
+
+  // Rooms the UI wants to be in. Unlike `joinedRooms` (server-confirmed via
+  // `joined_room`) this survives disconnects and drives the rejoin on connect.
+  const desiredRoomsRef = useRef(new Set<string>());
+  const joinedRoomsRef = useRef(joinedRooms);
+  joinedRoomsRef.current = joinedRooms;
+
+  // Gap recovery bookkeeping: newest message timestamp we hold per room, and
+  // when the transport dropped.
+  const lastMessageAtRef = useRef(new Map<string, string>());
+  const disconnectedAtRef = useRef<string | null>(null);
+
+  // Health monitoring (leader only); published to state by publishDiagnostics
+  const healthRef = useRef({
+    latencyMs: null as number | null,
+    lastPingAt: null as number | null,
+    connectedSince: null as number | null,
+    lastDisconnectReason: null as string | null,
+    history: [] as ConnectionEvent[],
+    inbound: [] as number[],
+    outbound: [] as number[],
+    messagesIn: 0,
+    messagesOut: 0,
+  });
 
   const maxReconnectAttempts = 5;
   const maxConnectionAttempts = 3;
 
   const connectSocketFnRef = useRef<() => Promise<void>>();
+  const flushOutboxFnRef = useRef<() => Promise<void>>();
+  const resyncRoomsFnRef = useRef<() => Promise<void>>();
+  const rejoinRoomsFnRef = useRef<() => void>();
+  const restartConnectionFnRef = useRef<(trigger: RestartTrigger) => void>();
+  const isFlushingRef = useRef(false);
   const stateRef = useRef({ connectionState, isAuthenticated, isShutdown });
   const isConnectingRef = useRef(false);
   const pendingConnectionRef = useRef<NodeJS.Timeout | null>(null);
@@ -51,6 +385,49 @@ export const useSocket = () => {
     stateRef.current = { connectionState, isAuthenticated, isShutdown };
   }, [connectionState, isAuthenticated, isShutdown]);
 
+  const publishDiagnostics = useCallback(() => {
+    const health = healthRef.current;
+    const windowStart = Date.now() - THROUGHPUT_WINDOW;
+    health.inbound = health.inbound.filter((at) => at >= windowStart);
+    health.outbound = health.outbound.filter((at) => at >= windowStart);
+
+    setDiagnostics({
+      latencyMs: health.latencyMs,
+      lastPingAt: health.lastPingAt,
+      transport: socketRef.current?.io.engine?.transport?.name ?? null,
+      connectedSince: health.connectedSince,
+      lastDisconnectReason: health.lastDisconnectReason,
+      connectionHistory: [...health.history],
+      messagesIn: health.messagesIn,
+      messagesOut: health.messagesOut,
+      messagesInPerMinute: health.inbound.length,
+      messagesOutPerMinute: health.outbound.length,
+    });
+  }, []);
+
+  const recordConnectionEvent = useCallback(
+    (type: ConnectionEvent["type"], detail?: string) => {
+      const health = healthRef.current;
+      health.history = [{ at: Date.now(), type, detail }, ...health.history].slice(
+        0,
+        MAX_HISTORY
+      );
+      publishDiagnostics();
+    },
+    [publishDiagnostics]
+  );
+
+  const recordThroughput = useCallback((direction: "in" | "out") => {
+    const health = healthRef.current;
+    if (direction === "in") {
+      health.inbound.push(Date.now());
+      health.messagesIn++;
+    } else {
+      health.outbound.push(Date.now());
+      health.messagesOut++;
+    }
+  }, []);
+
   const cleanup = useCallback(() => {
     logger.log("🧹 Cleaning up socket...");
 
@@ -81,7 +458,8 @@ export const useSocket = () => {
     // Reset state
     setConnectionState("disconnected");
     setJoinedRooms(new Set());
-    setTypingUsers(new Set());
+    setRejoiningRooms(new Set());
+    setTypingByRoom({});
     setReconnectAttempts(0);
     setLastError(null);
     connectionAttemptRef.current = 0;
@@ -104,6 +482,7 @@ export const useSocket = () => {
       ) {
         if (currentAttempt >= maxReconnectAttempts && !currentShutdown) {
           logger.log("❌ Max reconnection attempts reached");
+          recordConnectionEvent("shutdown", `Gave up after ${currentAttempt} attempts`);
           setIsShutdown(true);
           cleanup();
 
@@ -111,6 +490,13 @@ export const useSocket = () => {
         return;
       }
 
+      // No point burning attempts without a network; the `online` listener
+      // restarts the cycle once connectivity is back
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        logger.log("📴 Browser offline, waiting for the network before reconnecting");
+        return;
+      }
+
       const baseDelay = Math.min(1000 * Math.pow(2, currentAttempt), 30000);
       const jitter = Math.random() * 1000;
       const delay = baseDelay + jitter;
@@ -133,34 +519,185 @@ export const useSocket = () => {
         }
       }, delay);
     },
-    [cleanup, maxReconnectAttempts]
+    [cleanup, recordConnectionEvent, maxReconnectAttempts]
+  );
+
+  const trackLatestMessage = useCallback((message: Message) => {
+    const current = lastMessageAtRef.current.get(message.roomId);
+    if (!current || new Date(message.createdAt) > new Date(current)) {
+      lastMessageAtRef.current.set(message.roomId, message.createdAt);
+    }
+  }, []);
+
+  // Runs in every tab: directly from the socket in the leader, and from the
+  // tab bus in followers. Returns false when the payload failed validation.
+  const handleServerEvent = useCallback(
+    (event: RelayedEvent, payload: unknown): boolean => {
+      switch (event) {
+        case "new_message": {
+          const message = parseServerEvent(event, payload);
+          if (!message) return false;
+          trackLatestMessage(message);
+          // Sending a message ends that user's typing in the room
+          setTypingByRoom((prev) => withoutTypist(prev, message.roomId, message.userId));
+          // An echo of our own message keeps its confirmation state
+          const existing = message.tempId
+            ? store.getMessageByTempId(message.tempId)
+            : undefined;
+          store.upsertMessage({
+            ...message,
+            status: existing?.status === "confirmed" ? "confirmed" : "sent",
+          });
+          break;
+        }
+
+        case "user_typing": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          if (data.userId === user?.id) break;
+
+          setTypingByRoom((prev) => {
+            if (!data.isTyping) return withoutTypist(prev, data.roomId, data.userId);
+
+            const typists = prev[data.roomId] ?? [];
+            const typist: TypingUser = {
+              userId: data.userId,
+              username: data.username,
+              expiresAt: Date.now() + TYPING_EXPIRY,
+            };
+            const index = typists.findIndex((t) => t.userId === data.userId);
+            return {
+              ...prev,
+              [data.roomId]:
+                index === -1
+                  ? [...typists, typist]
+                  : typists.map((t, i) => (i === index ? typist : t)),
+            };
+          });
+          break;
+        }
+
+        case "read_receipt": {
+          const receipt = parseServerEvent(event, payload);
+          if (!receipt) return false;
+          if (receipt.userId === user?.id) break;
+
+          setReadReceiptsByRoom((prev) => {
+            const current = prev[receipt.roomId]?.[receipt.userId];
+            // Receipts can arrive out of order; markers only move forward
+            if (current && new Date(current.readUpTo) >= new Date(receipt.readUpTo)) {
+              return prev;
+            }
+            return {
+              ...prev,
+              [receipt.roomId]: { ...prev[receipt.roomId], [receipt.userId]: receipt },
+            };
+          });
+          break;
+        }
+
+        case "message_edited": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          store.updateById(data.messageId, (m) =>
+            m.deletedAt ? m : withEdit(m, data.content, data.editedAt)
+          );
+          break;
+        }
+
+        case "message_deleted": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          store.updateById(data.messageId, (m) => asTombstone(m, data.deletedAt));
+          break;
+        }
+
+        case "reaction_added":
+        case "reaction_removed": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          const apply = event === "reaction_added" ? withReaction : withoutReaction;
+          store.updateById(data.messageId, (m) =>
+            m.deletedAt ? m : apply(m, data.emoji, data.userId)
+          );
+          break;
+        }
+
+        case "message_confirmed": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          logger.log("✉️ Message confirmed:", data.tempId);
+          const timer = failTimersRef.current.get(data.tempId);
+          if (timer) {
+            clearTimeout(timer);
+            failTimersRef.current.delete(data.tempId);
+          }
+          store.confirmMessage(data.tempId, data.id, data.status);
+          break;
+        }
+
+        case "message_error": {
+          const data = parseServerEvent(event, payload);
+          if (!data) return false;
+          logger.error("❌ Message error:", data);
+          // Only the tab that composed the message reports the failure
+          const isOwnMessage = Boolean(store.getMessageByTempId(data.tempId));
+          store.updateByTempId(data.tempId, (m) => ({ ...m, status: "failed" }));
+
+          if (isOwnMessage) {
+            toast({
+              title: "Message Failed",
+              description: data.error || "An unknown error occurred.",
+              variant: "destructive",
+            });
+          }
+          break;
+        }
+      }
+      return true;
+    },
+    [user?.id, toast, store, trackLatestMessage]
   );
 
   const setupSocketListeners = useCallback(
-    (socket: Socket) => {
+    (socket: AppSocket) => {
       const handleSocketError = (error: unknown) => {
         const socketError = error as SocketError;
         logger.error("💥 Socket error:", socketError);
+        recordConnectionEvent("error", socketError.message);
         setLastError(socketError.message || "Socket error occurred");
         setConnectionState("disconnected");
       };
 
       socket.on("connect", () => {
         logger.log("✅ Transport connected to server");
+        isConnectingRef.current = false;
         setReconnectAttempts(0);
         connectionAttemptRef.current = 0;
       });
 
       socket.on("connected", (data) => {
-        logger.log("🎯 Auth success:", data);
+        // The handshake already succeeded; a malformed payload is only logged
+        logger.log("🎯 Auth success:", parseServerEvent("connected", data));
+        healthRef.current.connectedSince = Date.now();
+        recordConnectionEvent("connected", socket.io.engine?.transport?.name);
         setConnectionState("connected");
+        rejoinRoomsFnRef.current?.();
+        resyncRoomsFnRef.current?.();
+        flushOutboxFnRef.current?.();
       });
 
       socket.on("disconnect", (reason) => {
         logger.log("❌ Disconnected:", reason);
+        healthRef.current.connectedSince = null;
+        healthRef.current.latencyMs = null;
+        healthRef.current.lastDisconnectReason = reason;
+        recordConnectionEvent("disconnected", reason);
+        disconnectedAtRef.current ??= new Date().toISOString();
         setConnectionState("disconnected");
         setJoinedRooms(new Set());
-        setTypingUsers(new Set());
+        setRejoiningRooms(new Set());
+        setTypingByRoom({});
 
         if (reason !== "io client disconnect") {
           setReconnectAttempts((prev) => {
@@ -174,68 +711,34 @@ export const useSocket = () => {
       socket.on("error", handleSocketError);
       socket.on("connect_error", handleSocketError);
 
-      socket.on("new_message", (message: Message) => {
-        setRealtimeMessages((prev) => {
-          return [...prev, { ...message, status: "sending" }];
-        });
-      });
-
-      socket.on("user_typing", (data) => {
-        if (data.userId !== user?.id) {
-          setTypingUsers((prev) => {
-            const newSet = new Set(prev);
-            // --- FIX STARTS HERE ---
-            if (data.isTyping) {
-              newSet.add(data.username);
-            } else {
-              newSet.delete(data.username);
-            }
-            // --- FIX ENDS HERE ---
-            return newSet;
+      RELAYED_EVENTS.forEach((event) => {
+        socket.on(event, (payload: unknown) => {
+          if (!handleServerEvent(event, payload)) return;
+          if (event === "new_message") recordThroughput("in");
+          busRef.current?.post({
+            type: "event",
+            from: tabIdRef.current,
+            event,
+            payload,
           });
-        }
-      });
-
-      socket.on(
-        "message_confirmed",
-        (data: { tempId: string; id: string; status: "confirmed" }) => {
-          logger.log("✉️ Message confirmed:", data.tempId);
-          setRealtimeMessages((prev) =>
-            prev.map((m) => {
-              if (m.tempId === data.tempId) {
-                const timer = failTimersRef.current.get(data.tempId);
-                if (timer) {
-                  clearTimeout(timer);
-                  failTimersRef.current.delete(data.tempId);
-                }
-                return { ...m, id: data.id, status: data.status };
-              }
-              return m;
-            })
-          );
-        }
-      );
-
-      socket.on("message_error", (data: { tempId: string; error: string }) => {
-        logger.error("❌ Message error:", data);
-        setRealtimeMessages((prev) =>
-          prev.map((m) =>
-            m.tempId === data.tempId ? { ...m, status: "failed" } : m
-          )
-        );
-
-        toast({
-          title: "Message Failed",
-          description: data.error || "An unknown error occurred.",
-          variant: "destructive",
         });
       });
 
-      socket.on("joined_room", (data) => {
+      socket.on("joined_room", (payload) => {
+        const data = parseServerEvent("joined_room", payload);
+        if (!data) return;
         setJoinedRooms((prev) => new Set(prev).add(data.roomId));
+        setRejoiningRooms((prev) => {
+          if (!prev.has(data.roomId)) return prev;
+          const newSet = new Set(prev);
+          newSet.delete(data.roomId);
+          return newSet;
+        });
       });
 
-      socket.on("left_room", (data) => {
+      socket.on("left_room", (payload) => {
+        const data = parseServerEvent("left_room", payload);
+        if (!data) return;
         setJoinedRooms((prev) => {
           const newSet = new Set(prev);
           newSet.delete(data.roomId);
@@ -243,12 +746,13 @@ export const useSocket = () => {
         });
       });
     },
-    [user?.id, handleReconnection, toast]
+    [handleReconnection, handleServerEvent, recordConnectionEvent, recordThroughput]
   );
 
   const connectSocket = useCallback(async () => {
     // Check if already connecting or should not connect
     if (
+      !isLeaderRef.current ||
       isConnectingRef.current ||
       !stateRef.current.isAuthenticated ||
       stateRef.current.connectionState === "connecting" ||
@@ -284,7 +788,7 @@ export const useSocket = () => {
         socketRef.current = null;
       }
 
-      const socket = io(process.env.NEXT_PUBLIC_WSS_URL || "http://localhost:3000", { // Use http for Socket.IO connection
+      const socket: AppSocket = io(process.env.NEXT_PUBLIC_WSS_URL || "http://localhost:3000", { // Use http for Socket.IO connection
         path: "/socket/",  // WebSocket proxy path, ensure trailing slash for consistency
         transports: ["websocket"],
         timeout: 10000,
@@ -316,136 +820,836 @@ export const useSocket = () => {
     connectSocketFnRef.current = connectSocket;
   }, [connectSocket]);
 
-  /* ---------- Public API ---------- */
-  const sendMessage = useCallback(
-    async (data: SendMessageData) => {
-      if (!socketRef.current?.connected) {
-        toast({
-          title: "Not connected",
-          description: "Please wait for connection",
-          variant: "destructive",
-        });
-        return false;
-      }
+  /* ---------- Transport ---------- */
+  const isSocketReady = useCallback(() => {
+    return isLeaderRef.current
+      ? !!socketRef.current?.connected
+      : stateRef.current.connectionState === "connected";
+  }, []);
 
-      if (!data.content.trim()) return false;
+  // Executes a command against the real socket; only meaningful in the leader
+  const executeCommand = useCallback(
+    async (command: TabCommand): Promise<AckResult> => {
+      const socket = socketRef.current;
 
-      const tempId = `temp-${Date.now()}-${Math.random()
-        .toString(36)
-        .slice(2, 11)}`;
+      switch (command.kind) {
+        case "flush_outbox":
+          flushOutboxFnRef.current?.();
+          return { status: "delivered" };
 
-      const optimisticMessage: Message = {
-        id: tempId,
-        tempId,
-        content: data.content.trim(),
-        createdAt: new Date().toISOString(),
-        userId: user?.id || "",
-        username: user?.username || "You",
-        roomId: data.roomId,
-        messageType: data.messageType || "text",
-        status: "sending",
-      };
+        case "reconnect":
+          restartConnectionFnRef.current?.(command.trigger);
+          return { status: "delivered" };
+
+        case "emit":
+          if (!isValidClientPayload(command.event, command.payload)) {
+            return { status: "failed" };
+          }
+          if (!socket?.connected) return { status: "interrupted" };
+          socket.emit(command.event, command.payload);
+          return { status: "delivered" };
 
-      setRealtimeMessages((prev) => [...prev, optimisticMessage]);
+        case "emit_with_ack":
+          if (!isValidClientPayload(command.event, command.payload)) {
+            return { status: "failed" };
+          }
+          if (!socket?.connected) return { status: "interrupted" };
+          try {
+            recordThroughput("out");
+            const response = await emitCommandWithAck(socket, command);
+            return { status: "delivered", response };
+          } catch {
+            return { status: socket.connected ? "failed" : "interrupted" };
+          }
+      }
+    },
+    [recordThroughput]
+  );
+
+  // Runs locally in the leader, otherwise asks the leader over the tab bus
+  const runCommand = useCallback(
+    (command: TabCommand): Promise<AckResult> => {
+      const bus = busRef.current;
+      if (isLeaderRef.current || !bus) return executeCommand(command);
+
+      const requestId = createId("cmd");
+      return new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          pendingCommandsRef.current.delete(requestId);
+          resolve({ status: "interrupted" });
+        }, COMMAND_TIMEOUT);
+
+        pendingCommandsRef.current.set(requestId, { resolve, timer });
+        bus.post({ type: "command", from: tabIdRef.current, requestId, command });
+      });
+    },
+    [executeCommand]
+  );
+
+  /* ---------- Delivery ---------- */
+  const deliverMessage = useCallback(
+    async (message: Message): Promise<DeliveryResult> => {
+      const tempId = message.tempId || message.id;
+
+      if (!isSocketReady()) return "interrupted";
 
       // Set fail timer
       const failTimer = setTimeout(() => {
-        setRealtimeMessages((prev) =>
-          prev.map((m) =>
-            m.tempId === tempId && m.status === "sending"
-              ? { ...m, status: "failed" }
-              : m
-          )
+        store.updateByTempId(tempId, (m) =>
+          m.status === "sending" ? { ...m, status: "failed" } : m
         );
         failTimersRef.current.delete(tempId);
       }, 30000);
 
       failTimersRef.current.set(tempId, failTimer);
 
-      try {
-        await socketRef.current.emitWithAck("send_message", {
-          ...data,
-          content: data.content.trim(),
-          tempId,
-        });
-
-        // Clear fail timer on success
+      const clearFailTimer = () => {
         const timer = failTimersRef.current.get(tempId);
         if (timer) {
           clearTimeout(timer);
           failTimersRef.current.delete(tempId);
         }
+      };
 
-        return true;
-      } catch {
-        // Server will also trigger message_error, but we handle locally too
-        const timer = failTimersRef.current.get(tempId);
-        if (timer) {
-          clearTimeout(timer);
-          failTimersRef.current.delete(tempId);
-        }
+      const { status } = await runCommand({
+        kind: "emit_with_ack",
+        event: "send_message",
+        payload: {
+          roomId: message.roomId,
+          content: message.content,
+          messageType: message.messageType || "text",
+          tempId,
+          parentId: message.parentId,
+          threadId: message.threadId,
+          metadata: message.metadata,
+        },
+      });
 
-        setRealtimeMessages((prev) =>
-          prev.map((m) =>
-            m.tempId === tempId ? { ...m, status: "failed" } : m
-          )
-        );
+      clearFailTimer();
+
+      if (status === "interrupted") {
+        logger.log("📭 Connection lost before ack, re-queueing:", tempId);
+      } else if (status === "failed") {
+        // Server will also trigger message_error, but we handle locally too
+        store.updateByTempId(tempId, (m) => ({ ...m, status: "failed" }));
 
         toast({
           title: "Message Failed",
           description: "Server did not acknowledge the message.",
           variant: "destructive",
         });
+      }
 
-        return false;
+      return status;
+    },
+    [toast, store, isSocketReady, runCommand]
+  );
+
+  const queueMessage = useCallback(async (message: Message) => {
+    const queued: Message = { ...message, status: "queued" };
+    store.upsertMessage(queued);
+    await addOutboxEntry(toOutboxEntry(queued));
+  }, [store]);
+
+  const flushOutbox = useCallback(async () => {
+    // The outbox is shared by all tabs; only the leader drains it
+    if (!isLeaderRef.current) {
+      runCommand({ kind: "flush_outbox" });
+      return;
+    }
+
+    if (isFlushingRef.current || !user?.id) return;
+    isFlushingRef.current = true;
+
+    try {
+      const getQueuedEntries = async () =>
+        (await getOutboxEntries(user.id)).filter((entry) => entry.status !== "failed");
+
+      let entries = await getQueuedEntries();
+
+      // Re-read after each pass so messages queued mid-flush keep their order
+      while (entries.length > 0) {
+        logger.log(`📬 Flushing ${entries.length} queued message(s)`);
+
+        for (const entry of entries) {
+          if (!socketRef.current?.connected) return;
+
+          const message: Message = { ...fromOutboxEntry(entry), status: "sending" };
+          store.upsertMessage(message);
+
+          const result = await deliverMessage(message);
+
+          if (result === "interrupted") {
+            store.upsertMessage({ ...message, status: "queued" });
+            return;
+          }
+
+          // A failed message stays in the outbox so it survives a reload;
+          // retrying or discarding it is what removes it
+          if (result === "failed") {
+            await addOutboxEntry({ ...entry, status: "failed" });
+          } else {
+            await removeOutboxEntry(entry.tempId);
+          }
+        }
+
+        entries = await getQueuedEntries();
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [user?.id, store, deliverMessage, runCommand]);
+
+  useEffect(() => {
+    flushOutboxFnRef.current = flushOutbox;
+  }, [flushOutbox]);
+
+  /* ---------- Gap recovery ---------- */
+  // Pages through everything newer than `since`, moving `since` along to the
+  // newest message of each full page. Servers that ignore `since` return the
+  // latest page instead; when that page is full there may be a hole between it
+  // and what we hold, so the room's history is reloaded rather than patched.
+  // The same goes for a gap too long to page through.
+  const resyncRoom = useCallback(async (roomId: string, since: string) => {
+    let cursor = since;
+    let count = 0;
+
+    for (let page = 0; page < MAX_RESYNC_PAGES; page++) {
+      const response = await getMessagesSince(roomId, cursor, RESYNC_PAGE_SIZE);
+
+      if (!response.success || !response.messages) {
+        logger.warn(`⚠️ Could not resync room ${roomId}:`, response.message);
+        return { count, reloaded: false };
       }
+
+      const cursorTime = new Date(cursor).getTime();
+      const messages = transformApiMessages(response.messages);
+      const missed = messages.filter((m) => new Date(m.createdAt).getTime() >= cursorTime);
+      missed.forEach(trackLatestMessage);
+      count += store.addMessages(missed);
+
+      if (messages.length < RESYNC_PAGE_SIZE) return { count, reloaded: false };
+      if (missed.length < messages.length) break; // ← `since` was ignored
+
+      cursor = missed.reduce(
+        (latest, m) => (new Date(m.createdAt) > new Date(latest) ? m.createdAt : latest),
+        cursor
+      );
+    }
+
+    logger.log(`🔁 Room ${roomId} missed too much to fill in; reloading its history`);
+    store.resetRoom(roomId);
+    return { count: 0, reloaded: true };
+  }, [store, trackLatestMessage]);
+
+  // Union of the rooms wanted by this tab and, in the leader, by followers
+  const getWantedRooms = useCallback(() => {
+    const rooms = new Set(desiredRoomsRef.current);
+    remoteRoomsRef.current.forEach((remote) =>
+      remote.forEach((roomId) => rooms.add(roomId))
+    );
+    return rooms;
+  }, []);
+
+  const rejoinRooms = useCallback(() => {
+    const rooms = Array.from(getWantedRooms());
+    if (rooms.length === 0 || !socketRef.current?.connected) return;
+
+    logger.log(`🚪 Rejoining ${rooms.length} room(s)`);
+    setRejoiningRooms(new Set(rooms));
+
+    rooms.forEach((roomId) => {
+      socketRef.current?.emit("join_room", { roomId });
+    });
+  }, [getWantedRooms]);
+
+  useEffect(() => {
+    rejoinRoomsFnRef.current = rejoinRooms;
+  }, [rejoinRooms]);
+
+  const resyncRooms = useCallback(async () => {
+    const rooms = Array.from(desiredRoomsRef.current);
+    const disconnectedAt = disconnectedAtRef.current;
+    disconnectedAtRef.current = null;
+
+    if (rooms.length === 0 || !disconnectedAt) return;
+
+    logger.log(`🔁 Resyncing ${rooms.length} room(s)`);
+
+    const results = await Promise.all(
+      rooms.map((roomId) =>
+        resyncRoom(
+          roomId,
+          lastMessageAtRef.current.get(roomId) || disconnectedAt
+        )
+      )
+    );
+
+    const count = results.reduce((sum, result) => sum + result.count, 0);
+    const reloadedRooms = rooms.filter((_, index) => results[index].reloaded);
+    logger.log(`🔁 Synced ${count} missed message(s), reloaded ${reloadedRooms.length} room(s)`);
+    setLastResync({ count, reloadedRooms, at: Date.now() });
+  }, [resyncRoom]);
+
+  useEffect(() => {
+    resyncRoomsFnRef.current = resyncRooms;
+  }, [resyncRooms]);
+
+  const dispatchMessage = useCallback(
+    async (message: Message) => {
+      // Offline, reconnecting or still draining the outbox: queue behind it
+      if (!isSocketReady() || isFlushingRef.current) {
+        await queueMessage(message);
+        if (isSocketReady()) {
+          flushOutbox();
+        }
+        return true;
+      }
+
+      store.upsertMessage({ ...message, status: "sending" });
+
+      const result = await deliverMessage(message);
+
+      if (result === "interrupted") {
+        await queueMessage(message);
+      } else if (result === "delivered") {
+        // A retried message may have been kept in the outbox after failing
+        await removeOutboxEntry(message.tempId || message.id);
+      }
+
+      return result !== "failed";
+    },
+    [store, isSocketReady, queueMessage, flushOutbox, deliverMessage]
+  );
+
+  /* ---------- Public API ---------- */
+  const sendMessage = useCallback(
+    async (data: SendMessageData) => {
+      if (!data.content.trim() || !user) return false;
+
+      const tempId = createId("temp");
+
+      const optimisticMessage: Message = {
+        id: tempId,
+        tempId,
+        content: data.content.trim(),
+        createdAt: new Date().toISOString(),
+        userId: user.id,
+        username: user.username || "You",
+        roomId: data.roomId,
+        messageType: data.messageType || "text",
+        parentId: data.parentId,
+        threadId: data.threadId,
+        metadata: data.metadata,
+        status: "sending",
+      };
+
+      return dispatchMessage(optimisticMessage);
     },
-    [user, toast]
+    [user, dispatchMessage]
   );
 
-  const joinRoom = useCallback(
-    (roomId: string) => {
-      if (socketRef.current?.connected && !joinedRooms.has(roomId)) {
-        socketRef.current.emit("join_room", { roomId });
+  // Resends a failed message under its original tempId so the server can
+  // dedupe; passing `content` implements "edit and resend".
+  const retryMessage = useCallback(
+    async (tempId: string, content?: string) => {
+      const message = store.getMessageByTempId(tempId);
+      if (!message || message.status !== "failed") return false;
+
+      const nextContent = content !== undefined ? content.trim() : message.content;
+      if (!nextContent) return false;
+
+      return dispatchMessage({ ...message, content: nextContent });
+    },
+    [store, dispatchMessage]
+  );
+
+  const discardMessage = useCallback(async (tempId: string) => {
+    const timer = failTimersRef.current.get(tempId);
+    if (timer) {
+      clearTimeout(timer);
+      failTimersRef.current.delete(tempId);
+    }
+
+    store.removeByTempId(tempId);
+    await removeOutboxEntry(tempId);
+  }, [store]);
+
+  const retryFailedMessages = useCallback(
+    async (roomId: string) => {
+      // Already in createdAt order
+      const failed = store
+        .getRoomMessages(roomId)
+        .filter((m) => m.status === "failed" && m.tempId);
+
+      // Sequential so the room keeps its original ordering
+      for (const message of failed) {
+        await dispatchMessage(message);
       }
     },
-    [joinedRooms]
+    [store, dispatchMessage]
   );
 
+  const announceRooms = useCallback(() => {
+    busRef.current?.post({
+      type: "rooms",
+      from: tabIdRef.current,
+      rooms: Array.from(desiredRoomsRef.current),
+    });
+  }, []);
+
+  // Records the room as desired even while offline; it is (re)joined as soon
+  // as the server confirms the connection.
+  const joinRoom = useCallback((roomId: string) => {
+    desiredRoomsRef.current.add(roomId);
+    if (!isLeaderRef.current) {
+      announceRooms();
+      return;
+    }
+    if (socketRef.current?.connected && !joinedRoomsRef.current.has(roomId)) {
+      socketRef.current.emit("join_room", { roomId });
+    }
+  }, [announceRooms]);
+
   const leaveRoom = useCallback((roomId: string) => {
-    if (socketRef.current?.connected) {
+    desiredRoomsRef.current.delete(roomId);
+    if (!isLeaderRef.current) {
+      announceRooms();
+      return;
+    }
+    // Another tab may still have the room open
+    if (socketRef.current?.connected && !getWantedRooms().has(roomId)) {
       socketRef.current.emit("leave_room", { roomId });
     }
-  }, []);
+  }, [announceRooms, getWantedRooms]);
 
   const startTyping = useCallback((roomId: string) => {
-    if (socketRef.current?.connected) {
-      socketRef.current.emit("typing_start", { roomId });
+    if (isSocketReady()) {
+      runCommand({ kind: "emit", event: "typing_start", payload: { roomId } });
     }
-  }, []);
+  }, [isSocketReady, runCommand]);
 
   const stopTyping = useCallback((roomId: string) => {
-    if (socketRef.current?.connected) {
-      socketRef.current.emit("typing_stop", { roomId });
+    if (isSocketReady()) {
+      runCommand({ kind: "emit", event: "typing_stop", payload: { roomId } });
     }
-  }, []);
+  }, [isSocketReady, runCommand]);
+
+  // Edits and deletes apply optimistically and roll back if the server refuses
+  // or the connection drops before it answers
+  const mutateMessage = useCallback(
+    async (
+      messageId: string,
+      command: TabCommand,
+      apply: (message: Message) => Message,
+      failureTitle: string
+    ) => {
+      const original = store.getMessageById(messageId);
+      if (!original || original.userId !== user?.id || original.deletedAt) return false;
+
+      if (!isSocketReady()) {
+        toast({
+          title: failureTitle,
+          description: "You're offline. Try again once reconnected.",
+          variant: "destructive",
+        });
+        return false;
+      }
 
-  const clearMessages = useCallback(() => {
-    setRealtimeMessages([]);
-  }, []);
+      store.updateById(messageId, apply);
+      const { status, response } = await runCommand(command);
+
+      if (status === "delivered" && !isRejectedAck(response)) return true;
+
+      store.updateById(messageId, () => original);
+      toast({
+        title: failureTitle,
+        description:
+          status === "interrupted"
+            ? "Connection lost before the server confirmed the change."
+            : "The server refused the change.",
+        variant: "destructive",
+      });
+      return false;
+    },
+    [user?.id, store, toast, isSocketReady, runCommand]
+  );
+
+  const editMessage = useCallback(
+    (messageId: string, content: string) => {
+      const message = store.getMessageById(messageId);
+      const nextContent = content.trim();
+      if (!message || !nextContent || nextContent === message.content) {
+        return Promise.resolve(false);
+      }
+
+      return mutateMessage(
+        messageId,
+        {
+          kind: "emit_with_ack",
+          event: "edit_message",
+          payload: { roomId: message.roomId, messageId, content: nextContent },
+        },
+        (m) => withEdit(m, nextContent, new Date().toISOString()),
+        "Edit Failed"
+      );
+    },
+    [store, mutateMessage]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string) => {
+      const message = store.getMessageById(messageId);
+      if (!message) return Promise.resolve(false);
+
+      return mutateMessage(
+        messageId,
+        {
+          kind: "emit_with_ack",
+          event: "delete_message",
+          payload: { roomId: message.roomId, messageId },
+        },
+        (m) => asTombstone(m, new Date().toISOString()),
+        "Delete Failed"
+      );
+    },
+    [store, mutateMessage]
+  );
+
+  // Adds our reaction, or removes it when we already reacted with that emoji.
+  // Applied optimistically; rolled back by the inverse update (not a snapshot)
+  // so reactions from others that arrive meanwhile are kept.
+  const toggleReaction = useCallback(
+    async (messageId: string, emoji: string) => {
+      const message = store.getMessageById(messageId);
+      if (!message || !user || message.deletedAt || message.id === message.tempId) {
+        return false;
+      }
+
+      if (!isSocketReady()) {
+        toast({
+          title: "Reaction Failed",
+          description: "You're offline. Try again once reconnected.",
+          variant: "destructive",
+        });
+        return false;
+      }
+
+      const isRemoval = message.reactions?.[emoji]?.includes(user.id) ?? false;
+      const apply = isRemoval ? withoutReaction : withReaction;
+      const revert = isRemoval ? withReaction : withoutReaction;
+
+      store.updateById(messageId, (m) => apply(m, emoji, user.id));
+      const { status, response } = await runCommand({
+        kind: "emit_with_ack",
+        event: isRemoval ? "remove_reaction" : "add_reaction",
+        payload: { roomId: message.roomId, messageId, emoji },
+      });
+
+      if (status === "delivered" && !isRejectedAck(response)) return true;
+
+      store.updateById(messageId, (m) => revert(m, emoji, user.id));
+      toast({
+        title: "Reaction Failed",
+        description:
+          status === "interrupted"
+            ? "Connection lost before the server confirmed the reaction."
+            : "The server refused the reaction.",
+        variant: "destructive",
+      });
+      return false;
+    },
+    [user, store, toast, isSocketReady, runCommand]
+  );
+
+  // Tells the room we have read up to `message`; a no-op when the user turned
+  // read receipts off, for our own messages and for ones not yet on the server
+  const markMessageRead = useCallback((message: Message) => {
+    if (!getChatSettings().readReceipts) return;
+    if (message.userId === user?.id || message.id === message.tempId) return;
+    if (message.status === "queued" || message.status === "failed") return;
+
+    const lastSent = sentReadMarkersRef.current.get(message.roomId);
+    if (lastSent && new Date(lastSent) >= new Date(message.createdAt)) return;
+    sentReadMarkersRef.current.set(message.roomId, message.createdAt);
+
+    runCommand({
+      kind: "emit",
+      event: "mark_read",
+      payload: { roomId: message.roomId, messageId: message.id, readUpTo: message.createdAt },
+    });
+  }, [user?.id, runCommand]);
+
+  /* ---------- Tab coordination ---------- */
+  // Leader only: follows a follower's room set, joining and leaving on its behalf
+  const updateRemoteRooms = useCallback(
+    (tabId: string, rooms: string[]) => {
+      const previous = remoteRoomsRef.current.get(tabId) ?? new Set<string>();
+      const next = new Set(rooms);
+
+      if (next.size > 0) {
+        remoteRoomsRef.current.set(tabId, next);
+      } else {
+        remoteRoomsRef.current.delete(tabId);
+      }
+
+      const socket = socketRef.current;
+      if (!socket?.connected) return;
+
+      const wanted = getWantedRooms();
+      next.forEach((roomId) => {
+        if (!previous.has(roomId) && !joinedRoomsRef.current.has(roomId)) {
+          socket.emit("join_room", { roomId });
+        }
+      });
+      previous.forEach((roomId) => {
+        if (!wanted.has(roomId)) {
+          socket.emit("leave_room", { roomId });
+        }
+      });
+    },
+    [getWantedRooms]
+  );
+
+  const handleTabMessage = useCallback(
+    (message: TabMessage) => {
+      const tabId = tabIdRef.current;
+      if (message.from === tabId) return;
+
+      if (isLeaderRef.current) {
+        switch (message.type) {
+          case "hello":
+            updateRemoteRooms(message.from, message.rooms);
+            if (sharedStateRef.current) {
+              busRef.current?.post({ type: "state", from: tabId, state: sharedStateRef.current });
+            }
+            break;
+          case "rooms":
+            updateRemoteRooms(message.from, message.rooms);
+            break;
+          case "bye":
+            updateRemoteRooms(message.from, []);
+            break;
+          case "command":
+            executeCommand(message.command).then((result) => {
+              busRef.current?.post({
+                type: "command_result",
+                from: tabId,
+                to: message.from,
+                requestId: message.requestId,
+                result,
+              });
+            });
+            break;
+        }
+        return;
+      }
 
-  const reconnect = useCallback(() => {
+      switch (message.type) {
+        case "leader":
+          // A new leader took over; tell it which rooms this tab needs
+          busRef.current?.post({
+            type: "hello",
+            from: tabId,
+            rooms: Array.from(desiredRoomsRef.current),
+          });
+          break;
+        case "state":
+          setConnectionState(message.state.connectionState);
+          setLastError(message.state.lastError);
+          setReconnectAttempts(message.state.reconnectAttempts);
+          setIsShutdown(message.state.isShutdown);
+          setJoinedRooms(new Set(message.state.joinedRooms));
+          setRejoiningRooms(new Set(message.state.rejoiningRooms));
+          setDiagnostics(message.state.diagnostics);
+          break;
+        case "event":
+          handleServerEvent(message.event, message.payload);
+          break;
+        case "command_result": {
+          if (message.to !== tabId) break;
+          const pending = pendingCommandsRef.current.get(message.requestId);
+          if (pending) {
+            clearTimeout(pending.timer);
+            pendingCommandsRef.current.delete(message.requestId);
+            pending.resolve(message.result);
+          }
+          break;
+        }
+      }
+    },
+    [updateRemoteRooms, executeCommand, handleServerEvent]
+  );
+
+  useEffect(() => {
+    handleTabMessageRef.current = handleTabMessage;
+  }, [handleTabMessage]);
+
+  // Restarts the connection cycle from scratch (fresh token, fresh attempt
+  // budget); this is the only way out of `isShutdown`
+  const restartConnection = useCallback((trigger: RestartTrigger) => {
+    if (!isLeaderRef.current) {
+      runCommand({ kind: "reconnect", trigger });
+      return;
+    }
+
+    logger.log(`🔌 Restarting connection (${trigger})`);
+    recordConnectionEvent("restart", trigger);
+
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+
+    if (socketRef.current) {
+      if (socketRef.current.connected) {
+        disconnectedAtRef.current ??= new Date().toISOString();
+      }
+      socketRef.current.removeAllListeners();
+      socketRef.current.disconnect();
+      socketRef.current = null;
+    }
+
+    isConnectingRef.current = false;
+    connectionAttemptRef.current = 0;
+    // connectSocket reads stateRef, which would otherwise lag a render behind
+    stateRef.current = {
+      ...stateRef.current,
+      connectionState: "disconnected",
+      isShutdown: false,
+    };
     setIsShutdown(false);
     setReconnectAttempts(0);
+    setJoinedRooms(new Set());
     connectSocket();
-  }, [connectSocket]);
+  }, [connectSocket, runCommand, recordConnectionEvent]);
+
+  useEffect(() => {
+    restartConnectionFnRef.current = restartConnection;
+  }, [restartConnection]);
+
+  const reconnect = useCallback(() => restartConnection("manual"), [restartConnection]);
 
   /* ---------- Effects ---------- */
+  // Join the tab bus and compete for leadership of the shared connection
+  useEffect(() => {
+    const tabId = tabIdRef.current;
+    const pendingCommands = pendingCommandsRef.current;
+    const bus = createTabBus<TabMessage>(TAB_CHANNEL, (message) =>
+      handleTabMessageRef.current?.(message)
+    );
+    busRef.current = bus;
+
+    if (!bus) {
+      setIsLeader(true);
+      return () => {
+        setIsLeader(false);
+      };
+    }
+
+    bus.post({ type: "hello", from: tabId, rooms: Array.from(desiredRoomsRef.current) });
+
+    const releaseLeadership = requestLeadership(LEADER_LOCK, () => {
+      logger.log("👑 This tab now owns the shared socket connection");
+      setIsLeader(true);
+      bus.post({ type: "leader", from: tabId });
+    });
+
+    const handlePageHide = () => bus.post({ type: "bye", from: tabId });
+    const handlePageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) {
+        bus.post({ type: "hello", from: tabId, rooms: Array.from(desiredRoomsRef.current) });
+      }
+    };
+
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("pageshow", handlePageShow);
+
+    return () => {
+      handlePageHide();
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", handlePageShow);
+      releaseLeadership();
+      bus.close();
+      busRef.current = null;
+      pendingCommands.forEach(({ timer }) => clearTimeout(timer));
+      pendingCommands.clear();
+      setIsLeader(false);
+    };
+  }, []);
+
+  // A follower promoted to leader drops the mirrored state and connects itself
+  useEffect(() => {
+    if (!isLeader) return;
+    if (stateRef.current.connectionState === "connected") {
+      disconnectedAtRef.current ??= new Date().toISOString();
+    }
+    setConnectionState("disconnected");
+    setIsShutdown(false);
+    setJoinedRooms(new Set());
+    setRejoiningRooms(new Set());
+  }, [isLeader]);
+
+  // Leader publishes its connection state to the followers
+  useEffect(() => {
+    if (!isLeader) return;
+    const state: SharedSocketState = {
+      connectionState,
+      lastError,
+      reconnectAttempts,
+      isShutdown,
+      joinedRooms: Array.from(joinedRooms),
+      rejoiningRooms: Array.from(rejoiningRooms),
+      diagnostics,
+    };
+    sharedStateRef.current = state;
+    busRef.current?.post({ type: "state", from: tabIdRef.current, state });
+  }, [isLeader, connectionState, lastError, reconnectAttempts, isShutdown, joinedRooms, rejoiningRooms, diagnostics]);
+
+  // Leader measures round-trip latency while connected
+  useEffect(() => {
+    if (!isLeader || connectionState !== "connected") return;
+
+    const measureLatency = async () => {
+      const socket = socketRef.current;
+      if (!socket?.connected) return;
+
+      const sentAt = Date.now();
+      try {
+        await socket.timeout(PING_TIMEOUT).emitWithAck("ping", { sentAt });
+        healthRef.current.latencyMs = Date.now() - sentAt;
+      } catch {
+        healthRef.current.latencyMs = null;
+      }
+      healthRef.current.lastPingAt = Date.now();
+      publishDiagnostics();
+    };
+
+    measureLatency();
+    const pingTimer = setInterval(measureLatency, PING_INTERVAL);
+    return () => clearInterval(pingTimer);
+  }, [isLeader, connectionState, publishDiagnostics]);
+
+  // Followers track connection transitions themselves for gap recovery
+  const previousConnectionStateRef = useRef(connectionState);
+  useEffect(() => {
+    const previous = previousConnectionStateRef.current;
+    previousConnectionStateRef.current = connectionState;
+    if (isLeaderRef.current) return;
+
+    if (previous === "connected" && connectionState !== "connected") {
+      disconnectedAtRef.current ??= new Date().toISOString();
+      setTypingByRoom({});
+    } else if (previous !== "connected" && connectionState === "connected") {
+      resyncRooms();
+    }
+  }, [connectionState, resyncRooms]);
+
   useEffect(() => {
     let isMounted = true;
     let connectionTimer: NodeJS.Timeout | null = null;
 
-    if (isAuthenticated) {
+    if (isAuthenticated && isLeader) {
       logger.log("✅ Auth state is TRUE, scheduling socket connection.");
 
       // Clear any existing pending connection timer
@@ -461,13 +1665,20 @@ export const useSocket = () => {
 
       // Store the timer reference for cleanup
       pendingConnectionRef.current = connectionTimer;
-    } else {
+    } else if (!isAuthenticated) {
       // Clear pending connection timer when auth becomes false
       if (pendingConnectionRef.current) {
         clearTimeout(pendingConnectionRef.current);
         pendingConnectionRef.current = null;
       }
 
+      // Nothing to recover for a signed-out user
+      desiredRoomsRef.current.clear();
+      sentReadMarkersRef.current.clear();
+      setReadReceiptsByRoom({});
+      lastMessageAtRef.current.clear();
+      disconnectedAtRef.current = null;
+
       cleanup();
     }
 
@@ -477,7 +1688,48 @@ export const useSocket = () => {
         clearTimeout(connectionTimer);
       }
     };
-  }, [isAuthenticated, cleanup, connectSocket]);
+  }, [isAuthenticated, isLeader, cleanup, connectSocket]);
+
+  // Restart a dead connection when the network comes back or the tab is shown
+  // again. `online` fires in every tab, so only the leader acts on it; a tab
+  // becoming visible asks the leader through restartConnection.
+  useEffect(() => {
+    const needsRestart = () => {
+      const { isAuthenticated: auth, connectionState: state } = stateRef.current;
+      return auth && state === "disconnected" && !isConnectingRef.current;
+    };
+
+    const handleOnline = () => {
+      setIsOffline(false);
+      if (isLeaderRef.current && needsRestart()) {
+        restartConnection("back online");
+      }
+    };
+
+    const handleOffline = () => {
+      setIsOffline(true);
+      if (isLeaderRef.current) {
+        recordConnectionEvent("offline");
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== "visible" || !navigator.onLine) return;
+      if (needsRestart()) {
+        restartConnection("tab visible");
+      }
+    };
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [restartConnection, recordConnectionEvent]);
 
   useEffect(() => {
     return () => {
@@ -485,6 +1737,22 @@ export const useSocket = () => {
     };
   }, [cleanup]);
 
+  // Restore messages that were still queued when the page was closed
+  useEffect(() => {
+    if (!user?.id) return;
+    let isMounted = true;
+
+    getOutboxEntries(user.id).then((entries) => {
+      if (!isMounted || entries.length === 0) return;
+      logger.log(`📭 Restored ${entries.length} queued message(s) from outbox`);
+      entries.forEach((entry) => store.upsertMessage(fromOutboxEntry(entry)));
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [user?.id, store]);
+
   useEffect(() => {
     if (lastError) {
       const errorTimer = setTimeout(() => setLastError(null), 10000);
@@ -492,22 +1760,49 @@ export const useSocket = () => {
     }
   }, [lastError]);
 
+  // Drop typists that stopped refreshing, e.g. because they went offline
+  const hasTypists = Object.keys(typingByRoom).length > 0;
+  useEffect(() => {
+    if (!hasTypists) return;
+    const sweepTimer = setInterval(() => {
+      setTypingByRoom((prev) => withoutExpiredTypists(prev, Date.now()));
+    }, 1000);
+    return () => clearInterval(sweepTimer);
+  }, [hasTypists]);
+
+  useEffect(() => {
+    if (lastResync) {
+      const resyncTimer = setTimeout(() => setLastResync(null), 5000);
+      return () => clearTimeout(resyncTimer);
+    }
+  }, [lastResync]);
+
   return {
     isConnected: connectionState === "connected",
     connectionState,
     lastError,
     reconnectAttempts,
     joinedRooms: Array.from(joinedRooms),
-    realtimeMessages,
-    typingUsers: Array.from(typingUsers),
+    rejoiningRooms: Array.from(rejoiningRooms),
+    lastResync,
+    typingByRoom,
+    readReceiptsByRoom,
     connectSocket,
     sendMessage,
+    retryMessage,
+    discardMessage,
+    retryFailedMessages,
     joinRoom,
     leaveRoom,
     startTyping,
     stopTyping,
-    clearMessages,
+    markMessageRead,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
     reconnect,
     isShutdown,
+    isOffline,
+    diagnostics,
   };
 };
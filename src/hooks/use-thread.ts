@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getThreadReplies } from "@/lib/api";
+import { logger } from "@/lib/utils";
+import { useMessageStore, useRoomMessages } from "@/context/message-store-context";
+import { transformApiMessages } from "@/hooks/use-message-history";
+
+// A thread is its root message plus every message whose threadId points at it.
+// Replies live in the room's store like any other message (live ones arrive
+// through `new_message`); opening a thread fetches the ones not loaded yet.
+export const useThread = (roomId: string, threadId: string | null) => {
+  const store = useMessageStore();
+  const roomMessages = useRoomMessages(roomId);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const root = useMemo(
+    () => (threadId ? roomMessages.find((m) => m.id === threadId) : undefined),
+    [roomMessages, threadId]
+  );
+
+  const replies = useMemo(
+    () => (threadId ? roomMessages.filter((m) => m.threadId === threadId) : []),
+    [roomMessages, threadId]
+  );
+
+  useEffect(() => {
+    if (!threadId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    getThreadReplies(roomId, threadId)
+      .then((response) => {
+        if (response.success && response.messages) {
+          store.addMessages(transformApiMessages(response.messages));
+        } else {
+          logger.warn("🧵 Failed to load thread replies:", response.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, threadId, store]);
+
+  return { root, replies, isLoading };
+};
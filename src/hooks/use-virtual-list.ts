@@ -0,0 +1,313 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+
+export type VirtualItem = {
+  index: number;
+  key: string;
+  start: number; // ← Offset from the top of the list, in px
+  size: number;
+};
+
+export type ScrollAlign = "start" | "center" | "end" | "nearest";
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  // Height to assume until a row has been rendered and measured
+  estimateSize: (index: number) => number;
+  // The scrolling element, and the element rows are positioned in (it may
+  // have other content above it, like a "load more" button)
+  scrollRef: RefObject<HTMLElement>;
+  listRef: RefObject<HTMLElement>;
+  // Extra px rendered above and below the viewport
+  overscan?: number;
+  // Within this many px of the bottom the list counts as "at the end" and
+  // follows new rows
+  endThreshold?: number;
+}
+
+type Layout = {
+  keys: string[];
+  starts: number[];
+  sizes: number[];
+  totalSize: number;
+  indexByKey: Map<string, number>;
+};
+
+type Range = { start: number; end: number }; // ← Inclusive; end is -1 when empty
+
+const DEFAULT_OVERSCAN = 600;
+const DEFAULT_END_THRESHOLD = 120;
+const EMPTY_RANGE: Range = { start: 0, end: -1 };
+
+// Index of the first row whose bottom edge is below `offset` (the last row
+// when `offset` is past the end)
+const findIndex = (layout: Layout, offset: number) => {
+  let low = 0;
+  let high = layout.keys.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (layout.starts[mid] + layout.sizes[mid] <= offset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+const alignedOffset = (layout: Layout, index: number, align: ScrollAlign, top: number, viewport: number) => {
+  const start = layout.starts[index];
+  const size = layout.sizes[index];
+  switch (align) {
+    case "start":
+      return start;
+    case "center":
+      return start - (viewport - size) / 2;
+    case "end":
+      return start + size - viewport;
+    case "nearest":
+      if (start < top) return start;
+      if (start + size > top + viewport) return start + size - viewport;
+      return top;
+  }
+};
+
+// Windowed rendering for long lists of rows with varying heights. Only rows
+// near the viewport are rendered; the rest are accounted for by offsets built
+// from measured heights (or estimates for rows not seen yet).
+//
+// Whenever the layout changes the list keeps what the user is looking at in
+// place: at the end it stays at the end (smoothly following appended rows),
+// otherwise the first visible row stays where it was, which is what keeps the
+// position exact when older rows are prepended or rows above are re-measured.
+export const useVirtualList = ({
+  count,
+  getKey,
+  estimateSize,
+  scrollRef,
+  listRef,
+  overscan = DEFAULT_OVERSCAN,
+  endThreshold = DEFAULT_END_THRESHOLD,
+}: VirtualListOptions) => {
+  const [sizes, setSizes] = useState(() => new Map<string, number>());
+  const [range, setRange] = useState<Range>(EMPTY_RANGE);
+  const [isAtEnd, setIsAtEnd] = useState(true);
+
+  const atEndRef = useRef(true);
+  // Set while a smooth scroll to the end is running so it isn't cut short
+  const followingRef = useRef(false);
+  // First visible row and its offset from the top of the viewport
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  // Row a caller scrolled to; kept in place until the user scrolls themselves
+  const targetRef = useRef<{ key: string; align: ScrollAlign } | null>(null);
+
+  const layout = useMemo<Layout>(() => {
+    const keys: string[] = [];
+    const starts: number[] = [];
+    const rowSizes: number[] = [];
+    const indexByKey = new Map<string, number>();
+    let offset = 0;
+
+    for (let index = 0; index < count; index++) {
+      const key = getKey(index);
+      const size = sizes.get(key) ?? estimateSize(index);
+      keys.push(key);
+      starts.push(offset);
+      rowSizes.push(size);
+      indexByKey.set(key, index);
+      offset += size;
+    }
+
+    return { keys, starts, sizes: rowSizes, totalSize: offset, indexByKey };
+  }, [count, getKey, estimateSize, sizes]);
+
+  const layoutRef = useRef(layout);
+  const prevLayoutRef = useRef<Layout | null>(null);
+
+  const getListOffset = useCallback(() => listRef.current?.offsetTop ?? 0, [listRef]);
+
+  // Works out which rows to render and which one to anchor on
+  const updateRange = useCallback(() => {
+    const element = scrollRef.current;
+    const current = layoutRef.current;
+    if (!element || current.keys.length === 0) {
+      anchorRef.current = null;
+      setRange(EMPTY_RANGE);
+      return;
+    }
+
+    const top = element.scrollTop - getListOffset();
+    const first = findIndex(current, Math.max(0, top));
+    anchorRef.current = { key: current.keys[first], offset: current.starts[first] - top };
+
+    const start = findIndex(current, Math.max(0, top - overscan));
+    const end = findIndex(current, top + element.clientHeight + overscan);
+    setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [scrollRef, getListOffset, overscan]);
+
+  const scrollToOffset = useCallback((element: HTMLElement, top: number, behavior: ScrollBehavior = "auto") => {
+    if (behavior === "smooth") {
+      element.scrollTo({ top, behavior });
+    } else if (Math.abs(element.scrollTop - top) >= 1) {
+      element.scrollTop = top;
+    }
+  }, []);
+
+  const applyTarget = useCallback((element: HTMLElement, behavior: ScrollBehavior = "auto") => {
+    const target = targetRef.current;
+    const current = layoutRef.current;
+    const index = target ? current.indexByKey.get(target.key) : undefined;
+    if (!target || index === undefined) return false;
+
+    const listOffset = getListOffset();
+    const top = alignedOffset(current, index, target.align, element.scrollTop - listOffset, element.clientHeight);
+    scrollToOffset(element, listOffset + top, behavior);
+    return true;
+  }, [getListOffset, scrollToOffset]);
+
+  // Hold the viewport in place across layout changes, before the browser paints
+  useLayoutEffect(() => {
+    const prev = prevLayoutRef.current;
+    layoutRef.current = layout;
+    prevLayoutRef.current = layout;
+
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const end = element.scrollHeight - element.clientHeight;
+    const prevLast = prev?.keys[prev.keys.length - 1];
+    const appended =
+      prevLast !== undefined &&
+      layout.keys[layout.keys.length - 1] !== prevLast &&
+      layout.indexByKey.has(prevLast);
+
+    if (applyTarget(element)) {
+      // A row the caller scrolled to takes precedence
+    } else if (atEndRef.current) {
+      if (appended || followingRef.current) {
+        followingRef.current = true;
+        scrollToOffset(element, end, "smooth");
+      } else {
+        scrollToOffset(element, end);
+      }
+    } else if (anchorRef.current) {
+      const index = layout.indexByKey.get(anchorRef.current.key);
+      if (index !== undefined) {
+        scrollToOffset(element, getListOffset() + layout.starts[index] - anchorRef.current.offset);
+      }
+    }
+
+    updateRange();
+  }, [layout, scrollRef, getListOffset, applyTarget, scrollToOffset, updateRange]);
+
+  // Track the scroll position, and give control back to the user as soon as
+  // they scroll themselves
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const handleScroll = () => {
+      const distance = element.scrollHeight - element.scrollTop - element.clientHeight;
+      if (distance <= 1) followingRef.current = false;
+      atEndRef.current = followingRef.current || distance <= endThreshold;
+      setIsAtEnd(atEndRef.current);
+      updateRange();
+    };
+
+    const handleUserScroll = () => {
+      followingRef.current = false;
+      targetRef.current = null;
+    };
+
+    // The viewport changes size with the window and the input area below it
+    const resizeObserver = new ResizeObserver(() => {
+      if (atEndRef.current) scrollToOffset(element, element.scrollHeight - element.clientHeight);
+      updateRange();
+    });
+    resizeObserver.observe(element);
+
+    const userEvents = ["wheel", "touchstart", "keydown", "pointerdown"] as const;
+    element.addEventListener("scroll", handleScroll, { passive: true });
+    userEvents.forEach((type) => element.addEventListener(type, handleUserScroll, { passive: true }));
+    return () => {
+      resizeObserver.disconnect();
+      element.removeEventListener("scroll", handleScroll);
+      userEvents.forEach((type) => element.removeEventListener(type, handleUserScroll));
+    };
+  }, [scrollRef, endThreshold, scrollToOffset, updateRange]);
+
+  // One observer measures every rendered row; rows carry their key in
+  // `data-virtual-key`
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+  const getRowObserver = useCallback(() => {
+    rowObserverRef.current ??= new ResizeObserver((entries) => {
+      const measured: [string, number][] = [];
+      entries.forEach((entry) => {
+        const element = entry.target as HTMLElement;
+        // Rows that scrolled out of range report a size of 0 on removal
+        if (!element.isConnected) {
+          rowObserverRef.current?.unobserve(element);
+          return;
+        }
+        const key = element.dataset.virtualKey;
+        if (key) measured.push([key, element.offsetHeight]);
+      });
+
+      setSizes((prev) => {
+        const changed = measured.filter(([key, size]) => prev.get(key) !== size);
+        if (changed.length === 0) return prev;
+        const next = new Map(prev);
+        changed.forEach(([key, size]) => next.set(key, size));
+        return next;
+      });
+    });
+    return rowObserverRef.current;
+  }, []);
+
+  useEffect(() => () => rowObserverRef.current?.disconnect(), []);
+
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (element) getRowObserver().observe(element);
+  }, [getRowObserver]);
+
+  const scrollToKey = useCallback((key: string, align: ScrollAlign = "center", behavior: ScrollBehavior = "auto") => {
+    const element = scrollRef.current;
+    if (!element || !layoutRef.current.indexByKey.has(key)) return false;
+
+    followingRef.current = false;
+    targetRef.current = { key, align };
+    applyTarget(element, behavior);
+    // A smooth scroll is left alone rather than corrected on the way
+    if (behavior === "smooth") targetRef.current = null;
+    return true;
+  }, [scrollRef, applyTarget]);
+
+  const scrollToEnd = useCallback((behavior: ScrollBehavior = "smooth") => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    targetRef.current = null;
+    atEndRef.current = true;
+    setIsAtEnd(true);
+    followingRef.current = behavior === "smooth";
+    scrollToOffset(element, element.scrollHeight - element.clientHeight, behavior);
+  }, [scrollRef, scrollToOffset]);
+
+  const items = useMemo<VirtualItem[]>(() => {
+    const visible: VirtualItem[] = [];
+    const end = Math.min(range.end, layout.keys.length - 1);
+    for (let index = range.start; index <= end; index++) {
+      visible.push({ index, key: layout.keys[index], start: layout.starts[index], size: layout.sizes[index] });
+    }
+    return visible;
+  }, [layout, range]);
+
+  return {
+    items,
+    totalSize: layout.totalSize,
+    measureElement,
+    isAtEnd,
+    scrollToKey,
+    scrollToEnd,
+  };
+};
@@ -1,5 +1,6 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios'; // Import AxiosError for better typing
 import { logger } from './utils';
+import type { MessageAttachment, RoomMember, RoomRole } from './types';
 
 const API_GATEWAY_URL = process.env.NEXT_PUBLIC_API_URL; // Added default for dev  
 
@@ -7,6 +8,8 @@ logger.info('Using API_GATEWAY_URL:', API_GATEWAY_URL);
 
 const API_AUTH_BASE_URL = `${API_GATEWAY_URL}/auth`;
 const API_ROOMS_BASE_URL = `${API_GATEWAY_URL}/`;
+// Falls back to the local stand-in route (src/app/api/uploads) for development
+const UPLOAD_URL = process.env.NEXT_PUBLIC_UPLOAD_URL || '/api/uploads';
 
 // Helper functions for JWT token management
 const getAccessToken = (): string | null => {
@@ -53,8 +56,12 @@ const authInterceptor = (config: InternalAxiosRequestConfig): InternalAxiosReque
   return config;
 };
 
+// Axios instance for file uploads; no JSON content type, the form data sets its own
+const uploadsApiClient = axios.create();
+
 apiClient.interceptors.request.use(authInterceptor);
 roomsApiClient.interceptors.request.use(authInterceptor);
+uploadsApiClient.interceptors.request.use(authInterceptor);
 
 // --- Interfaces ---
 
@@ -152,6 +159,32 @@ interface MessageHistoryResponse {
   };
 }
 
+interface RoomResponse {
+  success: boolean;
+  message: string;
+  room?: Room;
+}
+
+interface CreateRoomInput {
+  name: string;
+  description: string;
+  roomType: 'public' | 'private';
+  members: string[]; // Usernames to add besides the creator
+}
+
+interface RoomMembersResponse {
+  success: boolean;
+  message: string;
+  members?: RoomMember[];
+}
+
+interface UploadAttachmentResponse {
+  success: boolean;
+  message: string;
+  attachment?: MessageAttachment;
+  cancelled?: boolean; // Set when the upload was aborted through its signal
+}
+
 // Helper function to extract error message from AxiosError
 const getAxiosErrorMessage = (error: unknown): string => {
   if (axios.isAxiosError(error)) {
@@ -243,6 +276,142 @@ export const getRooms = async (): Promise<RoomsResponse> => {
   }
 };
 
+// Public rooms anyone can join, members or not, optionally filtered by name
+// or description
+export const getPublicRooms = async (search?: string): Promise<RoomsResponse> => {
+  try {
+    const response = await roomsApiClient.get<RoomsResponse>('/rooms/public', {
+      params: search ? { search } : undefined,
+    });
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Get public rooms API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+export const getRoomMembers = async (roomId: string): Promise<RoomMembersResponse> => {
+  try {
+    const response = await roomsApiClient.get<RoomMembersResponse>(`/rooms/${roomId}/members`);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Get room members API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+export const createRoom = async (input: CreateRoomInput): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.post<RoomResponse>('/rooms', input);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Create room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Starts a direct conversation with a user, looked up by username. The server
+// returns the existing room when the two already have one.
+export const createDirectRoom = async (username: string): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.post<RoomResponse>('/rooms/direct', { username });
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Create direct room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+export const updateRoom = async (
+  roomId: string,
+  updates: Partial<Pick<Room, 'name' | 'description'>>
+): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.patch<RoomResponse>(`/rooms/${roomId}`, updates);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Update room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Adds a user, looked up by username, to the room's members
+export const inviteToRoom = async (roomId: string, username: string): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.post<RoomResponse>(`/rooms/${roomId}/members`, { username });
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Invite to room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+export const removeFromRoom = async (roomId: string, userId: string): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.delete<RoomResponse>(`/rooms/${roomId}/members/${userId}`);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Remove from room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Promotes a member to admin or back; ownership can't be handed over this way
+export const updateMemberRole = async (
+  roomId: string,
+  userId: string,
+  role: Exclude<RoomRole, 'owner'>
+): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.patch<RoomResponse>(`/rooms/${roomId}/members/${userId}`, { role });
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Update member role API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Adds the current user to a public room
+export const joinPublicRoom = async (roomId: string): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.post<RoomResponse>(`/rooms/${roomId}/join`);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Join room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+export const leaveRoom = async (roomId: string): Promise<RoomResponse> => {
+  try {
+    const response = await roomsApiClient.post<RoomResponse>(`/rooms/${roomId}/leave`);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Leave room API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
 export const getMessageHistory = async (roomId: string, page: number = 1, limit: number = 50): Promise<MessageHistoryResponse> => {
   try {
     const response = await roomsApiClient.get<MessageHistoryResponse>(`/rooms/${roomId}/messages`, {
@@ -256,3 +425,59 @@ export const getMessageHistory = async (roomId: string, page: number = 1, limit:
     return { success: false, message: errorMessage };
   }
 };
+
+// Fetches every reply in the thread started by `messageId`, oldest first
+export const getThreadReplies = async (roomId: string, messageId: string): Promise<MessageHistoryResponse> => {
+  try {
+    const response = await roomsApiClient.get<MessageHistoryResponse>(`/rooms/${roomId}/messages/${messageId}/replies`);
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Get thread replies API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Uploads one file; `onProgress` receives 0–100 and `signal` cancels the upload
+export const uploadAttachment = async (
+  file: File,
+  options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+): Promise<UploadAttachmentResponse> => {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  try {
+    const response = await uploadsApiClient.post<UploadAttachmentResponse>(UPLOAD_URL, formData, {
+      signal: options.signal,
+      onUploadProgress: (event) => {
+        if (event.total) options.onProgress?.(Math.round((event.loaded / event.total) * 100));
+      },
+    });
+    return response.data;
+  } catch (error: unknown) {
+    if (axios.isCancel(error)) {
+      return { success: false, message: 'Upload cancelled', cancelled: true };
+    }
+    console.error('Upload attachment API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
+
+// Fetches messages newer than `since` (ISO timestamp), oldest first. Used to
+// fill the gap left by a dropped socket connection.
+export const getMessagesSince = async (roomId: string, since: string, limit: number = 100): Promise<MessageHistoryResponse> => {
+  try {
+    const response = await roomsApiClient.get<MessageHistoryResponse>(`/rooms/${roomId}/messages`, {
+      params: { since, limit }
+    });
+    return response.data;
+  } catch (error: unknown) {
+    console.error('Get messages since API error:', error);
+    const errorMessage = getAxiosErrorMessage(error);
+    console.error('Detailed error response:', (error as AxiosError).response?.data);
+    return { success: false, message: errorMessage };
+  }
+};
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { Message, MessageAttachment } from './types';
+
+// Client-side limits for attachments. The upload endpoint enforces the same
+// ones; checking here just saves uploading a file that would be rejected.
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_PENDING_ATTACHMENTS = 10;
+
+export const IMAGE_ATTACHMENT_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export const ALLOWED_ATTACHMENT_TYPES = [
+  ...IMAGE_ATTACHMENT_TYPES,
+  'application/pdf',
+  'application/zip',
+  'application/json',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+export const isImageAttachment = (mimeType: string) => IMAGE_ATTACHMENT_TYPES.includes(mimeType);
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why a file can't be attached, or null when it can
+export const validateAttachmentFile = (file: { name: string; size: number; type: string }): string | null => {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: this file type can't be shared`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  return null;
+};
+
+// Attachment URLs come from other users' messages and end up in `href`s, so
+// only same-origin paths (like the dev route's /api/uploads/<id>) and web URLs
+// are allowed; `javascript:` and friends are rejected. A leading `//` or `/\`
+// would be protocol-relative and point at another host.
+const isSafeAttachmentUrl = (url: string) => {
+  if (url.startsWith('/')) return !url.startsWith('//') && !url.startsWith('/\\');
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const attachmentSchema = z.object({
+  id: z.string().min(1),
+  url: z.string().min(1).refine(isSafeAttachmentUrl),
+  name: z.string(),
+  size: z.number(),
+  mimeType: z.string(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+});
+
+// Attachments travel in `metadata.attachment`, one per message, with
+// `messageType` set to "image" or "file"
+export const getMessageAttachment = (message: Pick<Message, 'metadata'>): MessageAttachment | undefined => {
+  const parsed = attachmentSchema.safeParse(message.metadata?.attachment);
+  return parsed.success ? parsed.data : undefined;
+};
@@ -0,0 +1,156 @@
+import type { SlashCommand } from './slash-commands';
+import { inviteToRoom, leaveRoom, updateRoom } from './api';
+import { muteRoom, unmuteRoom } from '@/hooks/use-room-mutes';
+import { getRoomPermissions } from './permissions';
+
+const SHRUG = '¯\\_(ツ)_/¯';
+const SUMMARY_MESSAGE_LIMIT = 100;
+const DEFAULT_MUTE = '1h';
+
+const MUTE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const formatMuteEnd = (until: Date) =>
+  until.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const builtinSlashCommands: SlashCommand[] = [
+  {
+    name: 'me',
+    description: 'Send an action, shown as "you <action>"',
+    argsHint: 'action',
+    execute: ({ args, sendMessage }) => {
+      if (!args) return { type: 'error', message: 'Say what you are doing, e.g. /me waves' };
+      sendMessage(args, { messageType: 'action' });
+    },
+  },
+  {
+    name: 'shrug',
+    description: `Append ${SHRUG} to your message`,
+    argsHint: 'message',
+    execute: ({ args, sendMessage }) => {
+      sendMessage(args ? `${args} ${SHRUG}` : SHRUG);
+    },
+  },
+  {
+    name: 'topic',
+    description: "Show or change the room's topic",
+    argsHint: 'new topic',
+    execute: async ({ args, room, roomId, currentUser, members, refreshRooms }) => {
+      if (!args) {
+        return {
+          type: 'notice',
+          title: 'Topic',
+          content: room?.description || 'This room has no topic yet.',
+        };
+      }
+      if (room && !getRoomPermissions(room, currentUser, members).canEditRoom) {
+        return { type: 'error', message: 'Only owners and admins can change the topic' };
+      }
+
+      const response = await updateRoom(roomId, { description: args });
+      if (!response.success) return { type: 'error', message: response.message };
+      await refreshRooms();
+      return { type: 'success', message: 'Topic updated' };
+    },
+  },
+  {
+    name: 'invite',
+    description: 'Add someone to this room',
+    argsHint: '@user',
+    execute: async ({ args, roomId, members, room, currentUser, refreshRooms }) => {
+      const username = args.replace(/^@/, '');
+      if (!username || /\s/.test(username)) {
+        return { type: 'error', message: 'Name one user to invite, e.g. /invite @ann' };
+      }
+      if (room?.roomType === 'direct') {
+        return { type: 'error', message: "People can't be invited to a direct conversation" };
+      }
+      if (room && !getRoomPermissions(room, currentUser, members).canInvite) {
+        return { type: 'error', message: 'Only owners and admins can add people to this room' };
+      }
+      if (members.some((member) => member.username === username)) {
+        return { type: 'error', message: `${username} is already in this room` };
+      }
+
+      const response = await inviteToRoom(roomId, username);
+      if (!response.success) return { type: 'error', message: response.message };
+      await refreshRooms();
+      return { type: 'success', message: `${username} was added to the room` };
+    },
+  },
+  {
+    name: 'leave',
+    description: 'Leave this room',
+    execute: async ({ roomId, leaveSocketRoom, selectRoom, refreshRooms }) => {
+      const response = await leaveRoom(roomId);
+      if (!response.success) return { type: 'error', message: response.message };
+
+      leaveSocketRoom(roomId);
+      selectRoom(null);
+      await refreshRooms();
+      return { type: 'success', message: 'You left the room' };
+    },
+  },
+  {
+    name: 'mute',
+    description: 'Mute this room for a while, or "off" to unmute',
+    argsHint: '30m | 1h | 2d | off',
+    execute: ({ args, roomId }) => {
+      if (args.toLowerCase() === 'off') {
+        unmuteRoom(roomId);
+        return { type: 'success', message: 'Room unmuted' };
+      }
+
+      const match = (args || DEFAULT_MUTE).toLowerCase().match(/^(\d+)\s*([mhd])$/);
+      if (!match || Number(match[1]) <= 0) {
+        return { type: 'error', message: 'Use a duration like 30m, 1h or 2d' };
+      }
+
+      const until = new Date(Date.now() + Number(match[1]) * MUTE_UNITS[match[2]]);
+      muteRoom(roomId, until);
+      return { type: 'success', message: `Muted until ${formatMuteEnd(until)}` };
+    },
+  },
+  {
+    name: 'summarize',
+    description: 'Summarize the recent conversation (only you see it)',
+    execute: async ({ messages }) => {
+      const conversation = messages
+        .filter((m) => !m.deletedAt)
+        .slice(-SUMMARY_MESSAGE_LIMIT)
+        .map((m) => `${m.username}: ${m.content}`)
+        .join('\n');
+      if (!conversation) return { type: 'error', message: 'There is nothing to summarize yet' };
+
+      const response = await fetch('/api/summarize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversation }),
+      });
+      if (!response.ok) return { type: 'error', message: 'Could not summarize the conversation' };
+
+      const data = await response.json();
+      return { type: 'notice', title: 'Summary', content: data.summary };
+    },
+  },
+  {
+    name: 'poll',
+    description: 'Start a poll',
+    argsHint: 'question | option | option…',
+    execute: ({ args, sendMessage }) => {
+      const [question, ...options] = args.split('|').map((part) => part.trim()).filter(Boolean);
+      if (!question || options.length < 2) {
+        return { type: 'error', message: 'Give a question and at least two options: /poll Lunch? | Pizza | Sushi' };
+      }
+
+      const content = [
+        `📊 **${question}**`,
+        ...options.map((option, index) => `${index + 1}. ${option}`),
+      ].join('\n');
+      sendMessage(content, { messageType: 'poll', metadata: { poll: { question, options } } });
+    },
+  },
+];
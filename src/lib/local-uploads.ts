@@ -0,0 +1,14 @@
+import os from 'os';
+import path from 'path';
+
+// Shared by the stand-in upload routes. Files land in the OS temp directory,
+// which is fine for trying attachments out locally and nothing more.
+
+export const LOCAL_UPLOAD_DIR = path.join(os.tmpdir(), 'aether-uploads');
+
+// Ids are generated by the upload route, so anything else is rejected rather
+// than joined into a path
+export const isLocalUploadId = (id: string) => /^[a-f0-9-]{36}$/.test(id);
+
+export const localUploadsEnabled = () =>
+  process.env.NODE_ENV !== 'production' || process.env.ENABLE_LOCAL_UPLOADS === 'true';
@@ -0,0 +1,229 @@
+// A small markdown dialect for chat messages. The parser produces a plain tree
+// that MarkdownContent renders as React elements, so raw HTML in a message is
+// always shown as text and never injected into the page.
+//
+// Supported: **bold**, *italic*, ~~strike~~, `inline code`, fenced code blocks,
+// "- " / "1. " lists, "> " blockquotes, [text](url) links and bare URLs, plus
+// @mentions of the users listed in the message's metadata.
+
+import { mentionPattern } from './mentions';
+import { MessageMention } from './types';
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'emphasis' | 'strike'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'mention'; userId: string; username: string }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language?: string; code: string }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+const FENCE_OPEN = /^\s*```\s*([\w+#.-]*)\s*$/;
+const FENCE_CLOSE = /^\s*```\s*$/;
+const QUOTE_LINE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*(?:[-*+]|(\d{1,9})[.)])\s+(.*)$/;
+
+// Groups: 1 code, 2 bold, 3 strike, 4 italic, 5 link text, 6 link href, 7 URL, 8 newline
+const INLINE_TOKEN =
+  /`([^`\n]+)`|\*\*(.+?)\*\*|~~(.+?)~~|\*([^\s*](?:[^*\n]*[^\s*])?)\*|\[([^\]\n]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,:;"')\]!?])|(\n)/g;
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// Links may only point at web pages or mail addresses; `javascript:` and
+// friends fall back to plain text
+export const sanitizeHref = (href: string): string | null => {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseInline = (text: string, mentions: MessageMention[] = []): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let lastIndex = 0;
+
+  const pushPlain = (value: string) => {
+    if (!value) return;
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') previous.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  // Plain text, with the mentioned `@username`s turned into mention nodes
+  const pushText = (value: string) => {
+    if (mentions.length === 0 || !value.includes('@')) {
+      pushPlain(value);
+      return;
+    }
+
+    const userIds = new Map(mentions.map((mention) => [mention.username, mention.userId]));
+    let last = 0;
+    for (const match of value.matchAll(mentionPattern([...userIds.keys()]))) {
+      const at = (match.index ?? 0) + match[1].length;
+      pushPlain(value.slice(last, at));
+      nodes.push({ type: 'mention', userId: userIds.get(match[2])!, username: match[2] });
+      last = at + match[2].length + 1;
+    }
+    pushPlain(value.slice(last));
+  };
+
+  for (const match of text.matchAll(INLINE_TOKEN)) {
+    const index = match.index ?? 0;
+    pushText(text.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    const [whole, code, strong, strike, emphasis, linkText, linkHref, url] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong, mentions) });
+    } else if (strike !== undefined) {
+      nodes.push({ type: 'strike', children: parseInline(strike, mentions) });
+    } else if (emphasis !== undefined) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis, mentions) });
+    } else if (linkText !== undefined) {
+      const href = sanitizeHref(linkHref);
+      if (href) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+      else pushPlain(whole);
+    } else if (url !== undefined) {
+      const href = sanitizeHref(url);
+      if (href) nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] });
+      else pushPlain(whole);
+    } else {
+      nodes.push({ type: 'break' });
+    }
+  }
+
+  pushText(text.slice(lastIndex));
+  return nodes;
+};
+
+const startsBlock = (line: string) =>
+  FENCE_OPEN.test(line) || QUOTE_LINE.test(line) || LIST_ITEM.test(line);
+
+export const parseMarkdown = (source: string, mentions: MessageMention[] = []): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_OPEN);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unterminated fence runs to the end of the message
+      while (i < lines.length && !FENCE_CLOSE.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[1] || undefined, code: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE_LINE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_LINE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE_LINE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseMarkdown(quoted.join('\n'), mentions) });
+      continue;
+    }
+
+    const firstItem = line.match(LIST_ITEM);
+    if (firstItem) {
+      const ordered = firstItem[1] !== undefined;
+      const items: MarkdownInline[][] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (!item || (item[1] !== undefined) !== ordered) break;
+        items.push(parseInline(item[2], mentions));
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, start: ordered ? Number(firstItem[1]) : 1, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), mentions) });
+  }
+
+  return blocks;
+};
+
+// Editing helpers for the composer. Each takes the current value and selection
+// and returns the new value with the selection to restore.
+
+export type TextEdit = {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+// Wraps the selection in `before`/`after`, or unwraps it when it is already wrapped
+export const toggleWrap = (
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string = before
+): TextEdit => {
+  const isWrapped =
+    value.slice(start - before.length, start) === before &&
+    value.slice(end, end + after.length) === after;
+
+  if (isWrapped) {
+    return {
+      value: value.slice(0, start - before.length) + value.slice(start, end) + value.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+
+  return {
+    value: value.slice(0, start) + before + value.slice(start, end) + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: end + before.length,
+  };
+};
+
+// Prefixes every line touched by the selection; `prefix` gets the line's
+// position so ordered lists can number themselves
+export const prefixLines = (
+  value: string,
+  start: number,
+  end: number,
+  prefix: (index: number) => string
+): TextEdit => {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const prefixed = lines.map((line, index) => prefix(index) + line).join('\n');
+
+  return {
+    value: value.slice(0, lineStart) + prefixed + value.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + prefixed.length,
+  };
+};
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { Message, MessageMention } from './types';
+
+// Mentions are stored as `metadata.mentions`: the user id plus the username
+// that was typed. The content keeps the plain `@username` text, and the id lets
+// the pill show the member's current name after a rename.
+
+const mentionsSchema = z.array(
+  z.object({
+    userId: z.string().min(1),
+    username: z.string().min(1),
+  })
+);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// `@name` only counts at the start of the text or after whitespace or an
+// opening bracket, and only when the name isn't followed by more name
+// characters. Longest names are tried first so "@ann" doesn't win over "@anna".
+export const mentionPattern = (usernames: string[]) => {
+  const names = [...usernames].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(^|[\\s(\\[])@(${names.join('|')})(?![\\w.-])`, 'g');
+};
+
+const NO_MENTIONS: MessageMention[] = [];
+
+// Cached per metadata object so a message keeps returning the same array,
+// which keeps memoized renderers from re-parsing it
+const mentionCache = new WeakMap<object, MessageMention[]>();
+
+export const getMessageMentions = (message: Pick<Message, 'metadata'>): MessageMention[] => {
+  const { metadata } = message;
+  if (!metadata) return NO_MENTIONS;
+
+  let mentions = mentionCache.get(metadata);
+  if (!mentions) {
+    const parsed = mentionsSchema.safeParse(metadata.mentions);
+    mentions = parsed.success ? parsed.data : NO_MENTIONS;
+    mentionCache.set(metadata, mentions);
+  }
+  return mentions;
+};
+
+export const mentionsUser = (message: Pick<Message, 'metadata'>, userId: string) =>
+  getMessageMentions(message).some((mention) => mention.userId === userId);
+
+// The members whose `@username` appears in `content`
+export const collectMentions = (
+  content: string,
+  members: { id: string; username: string }[]
+): MessageMention[] => {
+  if (members.length === 0 || !content.includes('@')) return [];
+
+  const byName = new Map(members.map((member) => [member.username, member.id]));
+  const mentioned = new Map<string, MessageMention>();
+
+  for (const match of content.matchAll(mentionPattern([...byName.keys()]))) {
+    const userId = byName.get(match[2]);
+    if (userId) mentioned.set(userId, { userId, username: match[2] });
+  }
+
+  return [...mentioned.values()];
+};
+
+// The `@query` being typed at the caret, if any
+export const findMentionQuery = (
+  value: string,
+  caret: number
+): { query: string; start: number } | null => {
+  const match = value.slice(0, caret).match(/(^|[\s(\[])@([\w.-]*)$/);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
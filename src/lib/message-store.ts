@@ -0,0 +1,249 @@
+import { Message } from './types';
+
+// Normalized, framework-agnostic message store shared by the socket layer and
+// message history. Messages are kept once by key (server id, or tempId until
+// the server confirms them), every room has an id list ordered by createdAt,
+// and a tempId → key index lets confirmations patch a single entry.
+//
+// Per-room message arrays are rebuilt lazily and cached, so a snapshot only
+// changes identity when its own room changed; that keeps useSyncExternalStore
+// subscribers for other rooms from re-rendering.
+
+export interface RoomHistoryState {
+  page: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  hasLoadedInitial: boolean;
+}
+
+export interface MessageStore {
+  subscribe: (listener: () => void) => () => void;
+  getRoomMessages: (roomId: string) => Message[];
+  getHistoryState: (roomId: string) => RoomHistoryState;
+  getMessageByTempId: (tempId: string) => Message | undefined;
+  getMessageById: (id: string) => Message | undefined;
+  // Inserts messages not known yet (history pages, resyncs) and returns how
+  // many were new; known messages are left untouched
+  addMessages: (messages: Message[]) => number;
+  // Inserts or merges a live message, matched by tempId first, then by id
+  upsertMessage: (message: Message) => void;
+  updateByTempId: (tempId: string, update: (message: Message) => Message) => void;
+  updateById: (id: string, update: (message: Message) => Message) => void;
+  confirmMessage: (tempId: string, id: string, status: Message['status']) => void;
+  removeByTempId: (tempId: string) => void;
+  setHistoryState: (roomId: string, patch: Partial<RoomHistoryState>) => void;
+  // Forgets a room's server copies and history state so it loads afresh;
+  // messages still on their way out (queued, sending, failed) are kept
+  resetRoom: (roomId: string) => void;
+  reset: () => void;
+}
+
+const EMPTY_MESSAGES: Message[] = [];
+
+const INITIAL_HISTORY_STATE: RoomHistoryState = {
+  page: 0,
+  hasMore: true,
+  isLoading: false,
+  hasLoadedInitial: false,
+};
+
+const timeOf = (message: Message) => new Date(message.createdAt).getTime();
+
+export const createMessageStore = (): MessageStore => {
+  const byId = new Map<string, Message>();
+  const roomOrder = new Map<string, string[]>();
+  const tempIdIndex = new Map<string, string>();
+  const history = new Map<string, RoomHistoryState>();
+  const roomCache = new Map<string, Message[]>();
+  const listeners = new Set<() => void>();
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const invalidate = (roomId: string) => roomCache.delete(roomId);
+
+  // Binary search for the slot after every message created at or before `time`;
+  // live messages almost always land at the end.
+  const insertKey = (roomId: string, key: string, time: number) => {
+    const keys = roomOrder.get(roomId) ?? [];
+    const last = keys[keys.length - 1];
+    if (!last || timeOf(byId.get(last)!) <= time) {
+      keys.push(key);
+    } else {
+      let low = 0;
+      let high = keys.length;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (timeOf(byId.get(keys[mid])!) <= time) low = mid + 1;
+        else high = mid;
+      }
+      keys.splice(low, 0, key);
+    }
+    roomOrder.set(roomId, keys);
+    invalidate(roomId);
+  };
+
+  const removeKey = (roomId: string, key: string) => {
+    const keys = roomOrder.get(roomId);
+    if (!keys) return;
+    const index = keys.indexOf(key);
+    if (index !== -1) keys.splice(index, 1);
+    invalidate(roomId);
+  };
+
+  const findKey = (message: Message): string | undefined => {
+    if (message.tempId) {
+      const key = tempIdIndex.get(message.tempId);
+      if (key && byId.has(key)) return key;
+    }
+    return byId.has(message.id) ? message.id : undefined;
+  };
+
+  const insert = (message: Message) => {
+    byId.set(message.id, message);
+    if (message.tempId) tempIdIndex.set(message.tempId, message.id);
+    insertKey(message.roomId, message.id, timeOf(message));
+  };
+
+  const upsert = (message: Message) => {
+    const key = findKey(message);
+    if (!key) {
+      insert(message);
+      return;
+    }
+
+    const existing = byId.get(key)!;
+    // A local copy still carrying its tempId as id never undoes a confirmation
+    const id = message.id === message.tempId ? existing.id : message.id;
+    const merged: Message = { ...existing, ...message, id };
+
+    if (key !== merged.id) {
+      // The server id arrived with this update: re-key the entry in place
+      byId.delete(key);
+      const keys = roomOrder.get(merged.roomId);
+      const index = keys?.indexOf(key) ?? -1;
+      if (keys && index !== -1) keys[index] = merged.id;
+    }
+
+    byId.set(merged.id, merged);
+    if (merged.tempId) tempIdIndex.set(merged.tempId, merged.id);
+    invalidate(merged.roomId);
+  };
+
+  const updateKey = (key: string, update: (message: Message) => Message) => {
+    const message = byId.get(key);
+    if (!message) return;
+
+    const updated = update(message);
+    if (updated === message) return;
+    byId.set(key, updated);
+    invalidate(message.roomId);
+    notify();
+  };
+
+  const remove = (key: string) => {
+    const message = byId.get(key);
+    if (!message) return;
+    byId.delete(key);
+    if (message.tempId) tempIdIndex.delete(message.tempId);
+    removeKey(message.roomId, key);
+  };
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getRoomMessages: (roomId) => {
+      const cached = roomCache.get(roomId);
+      if (cached) return cached;
+
+      const keys = roomOrder.get(roomId);
+      if (!keys || keys.length === 0) return EMPTY_MESSAGES;
+
+      const messages = keys.map((key) => byId.get(key)!);
+      roomCache.set(roomId, messages);
+      return messages;
+    },
+
+    getHistoryState: (roomId) => history.get(roomId) ?? INITIAL_HISTORY_STATE,
+
+    getMessageByTempId: (tempId) => {
+      const key = tempIdIndex.get(tempId);
+      return key ? byId.get(key) : undefined;
+    },
+
+    addMessages: (messages) => {
+      const fresh = messages.filter((message) => !findKey(message));
+      if (fresh.length === 0) return 0;
+      fresh.forEach(insert);
+      notify();
+      return fresh.length;
+    },
+
+    upsertMessage: (message) => {
+      upsert(message);
+      notify();
+    },
+
+    getMessageById: (id) => byId.get(id),
+
+    updateByTempId: (tempId, update) => {
+      const key = tempIdIndex.get(tempId);
+      if (key) updateKey(key, update);
+    },
+
+    updateById: (id, update) => updateKey(id, update),
+
+    confirmMessage: (tempId, id, status) => {
+      const key = tempIdIndex.get(tempId);
+      const message = key ? byId.get(key) : undefined;
+      if (!key || !message) return;
+
+      // The `new_message` echo may have been stored under the server id already
+      if (key !== id && byId.has(id)) {
+        remove(key);
+        tempIdIndex.set(tempId, id);
+        byId.set(id, { ...byId.get(id)!, tempId, status });
+        invalidate(message.roomId);
+      } else {
+        upsert({ ...message, id, status });
+      }
+      notify();
+    },
+
+    removeByTempId: (tempId) => {
+      const key = tempIdIndex.get(tempId);
+      if (!key) return;
+      remove(key);
+      notify();
+    },
+
+    setHistoryState: (roomId, patch) => {
+      history.set(roomId, { ...(history.get(roomId) ?? INITIAL_HISTORY_STATE), ...patch });
+      notify();
+    },
+
+    resetRoom: (roomId) => {
+      const keys = [...(roomOrder.get(roomId) ?? [])];
+      keys.forEach((key) => {
+        const status = byId.get(key)?.status;
+        if (status !== 'queued' && status !== 'sending' && status !== 'failed') remove(key);
+      });
+      history.delete(roomId);
+      invalidate(roomId);
+      notify();
+    },
+
+    reset: () => {
+      byId.clear();
+      roomOrder.clear();
+      tempIdIndex.clear();
+      history.clear();
+      roomCache.clear();
+      notify();
+    },
+  };
+};
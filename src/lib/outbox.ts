@@ -0,0 +1,106 @@
+import { logger } from './utils';
+
+// Persistent outbox for messages composed while the socket is unavailable.
+// Entries survive page reloads and are flushed in createdAt order once the
+// server confirms authentication with the `connected` event.
+
+const DB_NAME = 'aether-connect';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export interface OutboxEntry {
+  tempId: string;
+  roomId: string;
+  content: string;
+  messageType: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+  parentId?: string;
+  threadId?: string;
+  metadata?: Record<string, unknown>;
+  // Failed entries are kept until the message is retried or discarded, but
+  // are not sent again by a flush
+  status?: 'queued' | 'failed';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDbAvailable = (): boolean => {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'tempId' });
+          store.createIndex('userId', 'userId', { unique: false });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getOutboxEntries = async (userId: string): Promise<OutboxEntry[]> => {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    const entries = await runTransaction<OutboxEntry[]>('readonly', (store) =>
+      store.index('userId').getAll(userId)
+    );
+    return entries.sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  } catch (error) {
+    logger.error('📭 Failed to read outbox:', error);
+    return [];
+  }
+};
+
+export const addOutboxEntry = async (entry: OutboxEntry): Promise<boolean> => {
+  if (!isIndexedDbAvailable()) return false;
+
+  try {
+    await runTransaction('readwrite', (store) => store.put(entry));
+    return true;
+  } catch (error) {
+    logger.error('📭 Failed to queue message in outbox:', error);
+    return false;
+  }
+};
+
+export const removeOutboxEntry = async (tempId: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await runTransaction('readwrite', (store) => store.delete(tempId));
+  } catch (error) {
+    logger.error('📭 Failed to remove message from outbox:', error);
+  }
+};
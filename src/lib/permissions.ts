@@ -0,0 +1,65 @@
+import { Room, RoomMember, RoomRole, User } from './types';
+
+// Who may manage a room and its members. The server has the final say; these
+// rules decide which actions the UI offers.
+//
+//   owner         edit the room, invite, remove admins and members, promote and demote
+//   admin         edit the room, invite, remove members, promote members
+//   member        nothing
+//   global admin  (`User.roles` includes "admin") everything, in any room
+//
+// Direct conversations have no members to manage; both people may edit them.
+
+export const GLOBAL_ADMIN_ROLE = 'admin';
+
+const ROLE_RANK: Record<RoomRole, number> = { member: 0, admin: 1, owner: 2 };
+const GLOBAL_ADMIN_RANK = 3;
+
+export const ROOM_ROLE_LABELS: Record<RoomRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+export const isGlobalAdmin = (user: Pick<User, 'roles'> | null | undefined) =>
+  Boolean(user?.roles?.includes(GLOBAL_ADMIN_ROLE));
+
+export const getRoomRole = (room: Room, member: Pick<RoomMember, 'id' | 'role'>): RoomRole =>
+  member.role ?? (member.id === room.createdBy ? 'owner' : 'member');
+
+export type RoomPermissions = {
+  canEditRoom: boolean;
+  canInvite: boolean;
+  canRemove: (member: RoomMember) => boolean;
+  canPromote: (member: RoomMember) => boolean;
+  canDemote: (member: RoomMember) => boolean;
+};
+
+export const getRoomPermissions = (
+  room: Room,
+  user: Pick<User, 'id' | 'roles'> | null | undefined,
+  members: RoomMember[]
+): RoomPermissions => {
+  if (!user || room.roomType === 'direct') {
+    return {
+      canEditRoom: Boolean(user),
+      canInvite: false,
+      canRemove: () => false,
+      canPromote: () => false,
+      canDemote: () => false,
+    };
+  }
+
+  const self = members.find((member) => member.id === user.id) ?? { id: user.id };
+  const rank = isGlobalAdmin(user) ? GLOBAL_ADMIN_RANK : ROLE_RANK[getRoomRole(room, self)];
+  const rankOf = (member: RoomMember) => ROLE_RANK[getRoomRole(room, member)];
+
+  return {
+    canEditRoom: rank >= ROLE_RANK.admin,
+    canInvite: rank >= ROLE_RANK.admin,
+    // Leaving is how people remove themselves
+    canRemove: (member) => member.id !== user.id && rank > rankOf(member),
+    canPromote: (member) => rank >= ROLE_RANK.admin && getRoomRole(room, member) === 'member',
+    canDemote: (member) => rank > ROLE_RANK.admin && getRoomRole(room, member) === 'admin',
+  };
+};
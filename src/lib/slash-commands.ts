@@ -0,0 +1,73 @@
+import { Message, Room, RoomMember, User } from './types';
+import { builtinSlashCommands } from './builtin-slash-commands';
+
+// Registry of the `/commands` MessageInput understands. Built-in commands are
+// registered below; other modules add their own with registerSlashCommand.
+
+export interface SlashCommandContext {
+  // Everything typed after the command name, trimmed
+  args: string;
+  roomId: string;
+  threadId?: string;
+  currentUser: User;
+  room?: Room;
+  members: RoomMember[];
+  messages: Message[];
+  // Posts into the room (or thread) the command was typed in
+  sendMessage: (
+    content: string,
+    options?: { messageType?: string; metadata?: Record<string, unknown> }
+  ) => void;
+  leaveSocketRoom: (roomId: string) => void;
+  refreshRooms: () => Promise<void>;
+  selectRoom: (roomId: string | null) => void;
+}
+
+// What MessageInput shows once a command ran. An error keeps the typed text so
+// it can be fixed; a notice is only shown to the user who ran the command.
+export type SlashCommandOutcome =
+  | { type: 'error'; message: string }
+  | { type: 'success'; message: string }
+  | { type: 'notice'; title: string; content: string };
+
+export interface SlashCommand {
+  name: string;
+  description: string;
+  // Shown next to the name in the autocomplete, e.g. "@user"
+  argsHint?: string;
+  execute: (
+    context: SlashCommandContext
+  ) => SlashCommandOutcome | void | Promise<SlashCommandOutcome | void>;
+}
+
+const registry = new Map<string, SlashCommand>(
+  builtinSlashCommands.map((command) => [command.name, command])
+);
+
+// Registers a command, replacing any command of the same name. Returns a
+// function that removes it again.
+export const registerSlashCommand = (command: SlashCommand) => {
+  registry.set(command.name, command);
+  return () => {
+    if (registry.get(command.name) === command) registry.delete(command.name);
+  };
+};
+
+export const getSlashCommands = (): SlashCommand[] =>
+  [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+
+export const findSlashCommand = (name: string) => registry.get(name.toLowerCase());
+
+// "/invite @ann" → { name: "invite", args: "@ann" }. A leading "//" escapes the
+// slash, so those messages are sent as text.
+export const parseSlashCommand = (text: string): { name: string; args: string } | null => {
+  const match = text.trim().match(/^\/([a-z][\w-]*)(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+};
+
+// Commands for the autocomplete while the name is being typed
+export const matchSlashCommands = (query: string): SlashCommand[] => {
+  const normalized = query.toLowerCase();
+  return getSlashCommands().filter((command) => command.name.startsWith(normalized));
+};
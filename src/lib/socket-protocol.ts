@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import type { Socket } from 'socket.io-client';
+import { logger } from './utils';
+
+// Single source of truth for the Socket.IO protocol spoken with the message
+// service. Every event is declared with a zod schema; payloads coming from the
+// server are validated at runtime and malformed ones are dropped.
+
+/* ---------- Shared payloads ---------- */
+
+export const roomPayloadSchema = z.object({
+  roomId: z.string().min(1),
+});
+
+export const messagePayloadSchema = z
+  .object({
+    id: z.string().min(1),
+    tempId: z.string().optional(),
+    content: z.string(),
+    createdAt: z.string(),
+    userId: z.string(),
+    username: z.string(),
+    roomId: z.string().min(1),
+    messageType: z.string().optional(),
+    metadata: z
+      .record(z.unknown())
+      .nullish()
+      .transform((metadata) => metadata ?? undefined),
+    editedAt: z
+      .string()
+      .nullish()
+      .transform((editedAt) => editedAt ?? undefined),
+    deletedAt: z
+      .string()
+      .nullish()
+      .transform((deletedAt) => deletedAt ?? undefined),
+    reactions: z
+      .record(z.array(z.string()))
+      .nullish()
+      .transform((reactions) => reactions ?? undefined),
+    parentId: z
+      .string()
+      .nullish()
+      .transform((parentId) => parentId ?? undefined),
+    threadId: z
+      .string()
+      .nullish()
+      .transform((threadId) => threadId ?? undefined),
+  })
+  // Keep fields added server-side that this client does not know about yet
+  .passthrough();
+
+/* ---------- Typing ---------- */
+
+// A typing client repeats `typing_start` at this interval; receivers drop a
+// typist they have not heard from within TYPING_EXPIRY, so a client that goes
+// away mid-sentence never leaves a stale indicator behind.
+export const TYPING_REFRESH_INTERVAL = 3000;
+export const TYPING_EXPIRY = 6000;
+
+/* ---------- Client → server ---------- */
+
+export const sendMessagePayloadSchema = z.object({
+  roomId: z.string().min(1),
+  content: z.string().min(1),
+  messageType: z.string(),
+  tempId: z.string().min(1),
+  parentId: z.string().min(1).optional(),
+  threadId: z.string().min(1).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+export const pingPayloadSchema = z.object({
+  sentAt: z.number(),
+});
+
+// "I have read everything in this room up to and including this message"
+export const markReadPayloadSchema = z.object({
+  roomId: z.string().min(1),
+  messageId: z.string().min(1),
+  readUpTo: z.string(),
+});
+
+export const editMessagePayloadSchema = z.object({
+  roomId: z.string().min(1),
+  messageId: z.string().min(1),
+  content: z.string().min(1),
+});
+
+export const deleteMessagePayloadSchema = z.object({
+  roomId: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+export const reactionPayloadSchema = z.object({
+  roomId: z.string().min(1),
+  messageId: z.string().min(1),
+  emoji: z.string().min(1).max(32),
+});
+
+export const clientEventSchemas = {
+  join_room: roomPayloadSchema,
+  leave_room: roomPayloadSchema,
+  send_message: sendMessagePayloadSchema,
+  typing_start: roomPayloadSchema,
+  typing_stop: roomPayloadSchema,
+  ping: pingPayloadSchema,
+  mark_read: markReadPayloadSchema,
+  edit_message: editMessagePayloadSchema,
+  delete_message: deleteMessagePayloadSchema,
+  add_reaction: reactionPayloadSchema,
+  remove_reaction: reactionPayloadSchema,
+} as const;
+
+export type ClientEventName = keyof typeof clientEventSchemas;
+
+export type RoomPayload = z.infer<typeof roomPayloadSchema>;
+export type SendMessagePayload = z.infer<typeof sendMessagePayloadSchema>;
+export type PingPayload = z.infer<typeof pingPayloadSchema>;
+export type MarkReadPayload = z.infer<typeof markReadPayloadSchema>;
+export type EditMessagePayload = z.infer<typeof editMessagePayloadSchema>;
+export type DeleteMessagePayload = z.infer<typeof deleteMessagePayloadSchema>;
+export type ReactionPayload = z.infer<typeof reactionPayloadSchema>;
+
+export interface ClientToServerEvents {
+  join_room: (data: RoomPayload) => void;
+  leave_room: (data: RoomPayload) => void;
+  send_message: (data: SendMessagePayload, ack: (response: unknown) => void) => void;
+  typing_start: (data: RoomPayload) => void;
+  typing_stop: (data: RoomPayload) => void;
+  // Acknowledged immediately by the server; used to measure round-trip latency
+  ping: (data: PingPayload, ack: (response: unknown) => void) => void;
+  mark_read: (data: MarkReadPayload) => void;
+  // Only the author may edit or delete; the ack reports whether it was applied
+  edit_message: (data: EditMessagePayload, ack: (response: unknown) => void) => void;
+  delete_message: (data: DeleteMessagePayload, ack: (response: unknown) => void) => void;
+  add_reaction: (data: ReactionPayload, ack: (response: unknown) => void) => void;
+  remove_reaction: (data: ReactionPayload, ack: (response: unknown) => void) => void;
+}
+
+/* ---------- Server → client ---------- */
+
+export const serverEventSchemas = {
+  connected: z
+    .object({
+      userId: z.string().optional(),
+      username: z.string().optional(),
+    })
+    .passthrough()
+    .optional(),
+  error: z
+    .object({
+      message: z.string().optional(),
+      code: z.string().optional(),
+    })
+    .passthrough(),
+  new_message: messagePayloadSchema,
+  message_confirmed: z.object({
+    tempId: z.string().min(1),
+    id: z.string().min(1),
+    status: z.enum(['sent', 'confirmed']).default('confirmed'),
+  }),
+  message_error: z.object({
+    tempId: z.string().min(1),
+    error: z.string().optional(),
+  }),
+  joined_room: roomPayloadSchema,
+  left_room: roomPayloadSchema,
+  user_typing: z.object({
+    userId: z.string(),
+    username: z.string(),
+    roomId: z.string().min(1),
+    isTyping: z.boolean(),
+  }),
+  message_edited: editMessagePayloadSchema.extend({
+    editedAt: z.string(),
+  }),
+  message_deleted: deleteMessagePayloadSchema.extend({
+    deletedAt: z.string(),
+  }),
+  reaction_added: reactionPayloadSchema.extend({
+    userId: z.string().min(1),
+  }),
+  reaction_removed: reactionPayloadSchema.extend({
+    userId: z.string().min(1),
+  }),
+  // Another member's mark_read, fanned out to the room
+  read_receipt: markReadPayloadSchema.extend({
+    userId: z.string().min(1),
+    username: z.string(),
+  }),
+} as const;
+
+export type ServerEventName = keyof typeof serverEventSchemas;
+
+export type ServerEventPayload<E extends ServerEventName> = z.infer<
+  (typeof serverEventSchemas)[E]
+>;
+
+export type ServerToClientEvents = {
+  [E in ServerEventName]: (data: ServerEventPayload<E>) => void;
+};
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Returns the validated payload, or null (after logging) when the server sent
+// something that does not match the protocol.
+export const parseServerEvent = <E extends ServerEventName>(
+  event: E,
+  payload: unknown
+): ServerEventPayload<E> | null => {
+  const result = serverEventSchemas[event].safeParse(payload);
+  if (!result.success) {
+    logger.warn(`🚫 Dropped malformed "${event}" payload:`, result.error.flatten(), payload);
+    return null;
+  }
+  return result.data as ServerEventPayload<E>;
+};
+
+// Acks of message mutations (edits, deletes, reactions): `{ success: false }`
+// means the server refused it
+const mutationAckSchema = z.object({
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+export const isRejectedAck = (response: unknown): boolean => {
+  const result = mutationAckSchema.safeParse(response);
+  return result.success && !result.data.success;
+};
+
+// Guards outgoing emits, which may originate from another tab over the tab bus
+export const isValidClientPayload = (event: ClientEventName, payload: unknown): boolean => {
+  const result = clientEventSchemas[event].safeParse(payload);
+  if (!result.success) {
+    logger.warn(`🚫 Refused to emit malformed "${event}" payload:`, result.error.flatten(), payload);
+  }
+  return result.success;
+};
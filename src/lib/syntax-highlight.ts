@@ -0,0 +1,69 @@
+// Lightweight highlighting for fenced code blocks: splits code into comments,
+// strings, numbers, keywords and plain text. It doesn't try to understand any
+// grammar, only to make pasted snippets easier to scan.
+
+export type CodeTokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export type CodeToken = {
+  type: CodeTokenType;
+  text: string;
+};
+
+const KEYWORDS = new Set([
+  // JavaScript / TypeScript
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return',
+  'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined',
+  'var', 'void', 'while', 'yield', 'enum', 'readonly', 'private', 'public', 'protected',
+  // Python / Ruby / shell
+  'and', 'as', 'def', 'elif', 'except', 'fi', 'then', 'lambda', 'None', 'not', 'or', 'pass',
+  'raise', 'self', 'True', 'False', 'with', 'end', 'echo', 'esac', 'done',
+  // Go / Rust / Java / C-family
+  'func', 'package', 'struct', 'fn', 'impl', 'mut', 'pub', 'use', 'match', 'go', 'chan', 'defer',
+  'int', 'string', 'bool', 'float', 'double', 'char', 'long', 'final', 'throws', 'boolean',
+  // SQL
+  'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'UPDATE', 'DELETE', 'JOIN', 'ON', 'AND', 'OR',
+  'ORDER', 'BY', 'GROUP', 'LIMIT', 'VALUES', 'SET', 'CREATE', 'TABLE', 'AS', 'NOT', 'NULL',
+]);
+
+// Languages whose comments start with `#` instead of `//` and `/* */`
+const HASH_COMMENT_LANGUAGES = new Set([
+  'py', 'python', 'rb', 'ruby', 'sh', 'bash', 'shell', 'zsh', 'yaml', 'yml', 'toml', 'dockerfile',
+]);
+
+// Groups: 1 comment, 2 string, 3 number, 4 identifier
+const SLASH_TOKEN =
+  /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+const HASH_TOKEN =
+  /(#[^\n]*)|("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*')|(\b\d+(?:\.\d+)?\b)|([A-Za-z_$][\w$]*)/g;
+
+export const highlightCode = (code: string, language?: string): CodeToken[] => {
+  if (!language) return [{ type: 'plain', text: code }];
+
+  const pattern = HASH_COMMENT_LANGUAGES.has(language.toLowerCase()) ? HASH_TOKEN : SLASH_TOKEN;
+  const tokens: CodeToken[] = [];
+  let lastIndex = 0;
+
+  const push = (type: CodeTokenType, text: string) => {
+    if (!text) return;
+    const previous = tokens[tokens.length - 1];
+    if (previous?.type === type) previous.text += text;
+    else tokens.push({ type, text });
+  };
+
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    push('plain', code.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+
+    const [whole, comment, string, number] = match;
+    if (comment !== undefined) push('comment', whole);
+    else if (string !== undefined) push('string', whole);
+    else if (number !== undefined) push('number', whole);
+    else push(KEYWORDS.has(whole) ? 'keyword' : 'plain', whole);
+  }
+
+  push('plain', code.slice(lastIndex));
+  return tokens;
+};
@@ -0,0 +1,95 @@
+import { logger } from './utils';
+
+// Cross-tab messaging used to share one socket connection between every open
+// /chat tab. Messages are relayed through a SharedWorker where supported and
+// through a BroadcastChannel otherwise; either way a message posted by one tab
+// is delivered to every *other* tab.
+
+export interface TabBus<T> {
+  post: (message: T) => void;
+  close: () => void;
+}
+
+type RelayControl = { __relay: 'disconnect' };
+
+const createSharedWorkerBus = <T>(name: string, onMessage: (message: T) => void): TabBus<T> => {
+  const worker = new SharedWorker(new URL('../workers/tab-relay.worker.ts', import.meta.url), {
+    name,
+    type: 'module',
+  });
+  const port = worker.port;
+
+  port.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+  port.start();
+
+  return {
+    post: (message) => port.postMessage(message),
+    close: () => {
+      port.postMessage({ __relay: 'disconnect' } satisfies RelayControl);
+      port.close();
+    },
+  };
+};
+
+const createBroadcastChannelBus = <T>(name: string, onMessage: (message: T) => void): TabBus<T> => {
+  const channel = new BroadcastChannel(name);
+  channel.onmessage = (event: MessageEvent<T>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+// Returns null when the browser offers neither transport; callers then behave
+// as a standalone tab.
+export const createTabBus = <T>(name: string, onMessage: (message: T) => void): TabBus<T> | null => {
+  if (typeof window === 'undefined') return null;
+
+  if (typeof SharedWorker !== 'undefined') {
+    try {
+      return createSharedWorkerBus(name, onMessage);
+    } catch (error) {
+      logger.warn('🗂️ SharedWorker relay unavailable, falling back to BroadcastChannel:', error);
+    }
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannelBus(name, onMessage);
+  }
+
+  return null;
+};
+
+// Leader election backed by the Web Locks API: the lock is held for as long as
+// the tab lives (or until the returned release function is called), and the
+// browser hands it to the next waiting tab when the holder goes away. Without
+// Web Locks every tab becomes its own leader, matching the old behaviour.
+export const requestLeadership = (name: string, onAcquired: () => void): (() => void) => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onAcquired();
+    return () => {};
+  }
+
+  let release: () => void = () => {};
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const abort = new AbortController();
+
+  navigator.locks
+    .request(name, { signal: abort.signal }, () => {
+      onAcquired();
+      return held;
+    })
+    .catch((error: unknown) => {
+      if ((error as Error)?.name !== 'AbortError') {
+        logger.error('🗂️ Leader election failed:', error);
+      }
+    });
+
+  return () => {
+    abort.abort();
+    release();
+  };
+};
@@ -21,9 +21,35 @@ export type Message = {
   username: string; // ← ADDED: Missing from your type but used in socket
   roomId: string;
   messageType?: string;
-  status?: 'sending' | 'sent' | 'confirmed' | 'failed'; // ← FIXED: Align with socket usage
+  status?: 'queued' | 'sending' | 'sent' | 'confirmed' | 'failed'; // ← 'queued' = waiting in the offline outbox
   user?: User;
   metadata?: Record<string, unknown>; // ← ADDED: For future extensibility
+  editedAt?: string;
+  editHistory?: MessageRevision[]; // ← Previous versions, oldest first
+  deletedAt?: string; // ← Set on tombstones; content is blanked
+  reactions?: Record<string, string[]>; // ← emoji → ids of the users who reacted
+  parentId?: string; // ← Message quoted by this reply
+  threadId?: string; // ← Root message of the thread this reply belongs to; kept out of the main timeline
+};
+
+export type MessageMention = {
+  userId: string;
+  username: string; // ← Name as typed when sending; rendering uses the current one
+};
+
+export type MessageAttachment = {
+  id: string;
+  url: string;
+  name: string;
+  size: number; // ← Bytes
+  mimeType: string;
+  width?: number; // ← Images only, so thumbnails can reserve their space
+  height?: number;
+};
+
+export type MessageRevision = {
+  content: string;
+  editedAt: string; // ← When this version was replaced
 };
 
 export type Room = {
@@ -37,6 +63,17 @@ export type Room = {
   updatedAt: string;
   unreadCount?: number; // ← ADDED: For UI state
   lastActivity?: string; // ← ADDED: For sorting
+  isPending?: boolean; // ← Created optimistically, not confirmed by the server yet
+};
+
+export type RoomRole = 'owner' | 'admin' | 'member';
+
+export type RoomMember = {
+  id: string;
+  username: string;
+  avatarUrl?: string;
+  isOnline?: boolean;
+  role?: RoomRole; // ← Per-room role; when missing the creator counts as owner
 };
 
 export type Conversation = {
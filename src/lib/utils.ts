@@ -5,6 +5,31 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// "Alice is typing…", "Alice and Bob are typing…", "Alice, Bob and 2 others are typing…"
+export function formatTypingUsers(usernames: string[]): string {
+  if (usernames.length === 0) return ''
+  if (usernames.length === 1) return `${usernames[0]} is typing…`
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing…`
+  const others = usernames.length - 2
+  return `${usernames[0]}, ${usernames[1]} and ${others} ${others === 1 ? 'other' : 'others'} are typing…`
+}
+
+// Compact timestamp for lists: "now", "5m", "3h", "Yesterday", "Mon", "Mar 4"
+export function formatRelativeTime(timestamp: string, now: number = Date.now()): string {
+  const date = new Date(timestamp)
+  const minutes = Math.floor((now - date.getTime()) / 60000)
+
+  if (minutes < 1) return 'now'
+  if (minutes < 60) return `${minutes}m`
+  if (minutes < 60 * 24 && date.getDate() === new Date(now).getDate()) return `${Math.floor(minutes / 60)}h`
+
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0)
+  const days = Math.ceil((startOfToday - date.getTime()) / (24 * 60 * 60000))
+  if (days <= 1) return 'Yesterday'
+  if (days < 7) return date.toLocaleDateString([], { weekday: 'short' })
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
 console.log(`Logger initialized in ${process.env.NODE_ENV} mode.`);
 
 const isDevelopment =process.env.NODE_ENV === 'development';
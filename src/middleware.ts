@@ -14,10 +14,15 @@ export function middleware(request: NextRequest) {
   const protectedPaths = ["/chat", "/profile"];
   const isProtectedPath = protectedPaths.some((path) => pathname.startsWith(path));
 
-  // If trying to access a protected path without being authenticated, redirect to login
+  // If trying to access a protected path without being authenticated, redirect to login.
+  // Room and message links are passed along so login can return to them.
   if (isProtectedPath && !isLoggedIn) {
     logger.log(`Middleware: Unauthenticated access to protected route "${pathname}". Redirecting to /login.`);
-    return NextResponse.redirect(new URL("/login", request.url));
+    const loginUrl = new URL("/login", request.url);
+    if (pathname.startsWith("/chat/")) {
+      loginUrl.searchParams.set("next", pathname);
+    }
+    return NextResponse.redirect(loginUrl);
   }
 
   // Allow the request to proceed. Client-side AuthContext will handle redirection for authenticated users on auth pages.
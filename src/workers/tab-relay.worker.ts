@@ -0,0 +1,35 @@
+// SharedWorker that relays messages between the tabs connected to it. Each
+// message received from one port is forwarded to every other port; the worker
+// keeps no state besides the port list.
+
+interface RelayScope {
+  onconnect: ((event: MessageEvent) => void) | null;
+}
+
+const scope = self as unknown as RelayScope;
+const ports = new Set<MessagePort>();
+
+const isDisconnect = (data: unknown): boolean =>
+  typeof data === 'object' && data !== null && (data as { __relay?: string }).__relay === 'disconnect';
+
+scope.onconnect = (event: MessageEvent) => {
+  const port = event.ports[0];
+  ports.add(port);
+
+  port.onmessage = (message: MessageEvent) => {
+    if (isDisconnect(message.data)) {
+      ports.delete(port);
+      return;
+    }
+
+    ports.forEach((other) => {
+      if (other !== port) {
+        other.postMessage(message.data);
+      }
+    });
+  };
+
+  port.start();
+};
+
+export {};